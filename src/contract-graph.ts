@@ -0,0 +1,30 @@
+#!/usr/bin/env node
+import 'source-map-support/register';
+import * as fs from 'fs';
+import * as path from 'path';
+import { App } from 'aws-cdk-lib';
+import { RagContracts } from './rag-contracts';
+import type { ContractGraphFormat } from './utils/contract-graph';
+
+/**
+ * Writes the contract graph: node dist/contract-graph.js [json|mermaid|dot] [outFile]
+ * Defaults to cdk.out/contract-graph.<ext>, runs in local mode when there is no AWS account in the environment
+ */
+const extensions: Record<ContractGraphFormat, string> = {json: 'json', mermaid: 'mmd', dot: 'dot'};
+
+const format = (process.argv[2] ?? 'mermaid') as ContractGraphFormat;
+if (!extensions[format]) {
+    console.error(`Unknown format '${format}', expected one of: ${Object.keys(extensions).join(', ')}`);
+    process.exit(1);
+}
+
+const outFile = process.argv[3] ?? path.join('cdk.out', `contract-graph.${extensions[format]}`);
+
+const app = new App();
+const ragContracts = new RagContracts(app, {
+    local: !process.env.CDK_DEFAULT_ACCOUNT && !process.env.CODEBUILD_BUILD_ARN
+});
+
+fs.mkdirSync(path.dirname(outFile), {recursive: true});
+fs.writeFileSync(outFile, ragContracts.exportContractGraph(format));
+console.log(`Contract graph written to ${outFile}`);
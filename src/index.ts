@@ -1,9 +1,22 @@
-export { RagContracts } from './rag-contracts';
+export { RagContracts, DEFAULT_LOCAL_STAND_INS, LOCAL_BUILD_ACCOUNT } from './rag-contracts';
 
-export type { AccountsRag, GithubReposRag } from './types';
+export type {
+    AccountsRag,
+    GithubReposRag,
+    RagEnverLaneConfig,
+    RagEnverTopology,
+    RagLocalStandIns,
+    RagEphemeralEnverConfig,
+    RagEphemeralEnvers,
+    RagContractsOptions
+} from './types';
 
 export { OdmdBuildContractsRag } from './contracts-build';
 
+export { RagServiceBuild } from './services/rag-service-build';
+
+export { RagLaneResolver } from './rag-lane-resolver';
+
 export {
     RagDocumentIngestionBuild,
     RagDocumentIngestionEnver
@@ -29,17 +42,253 @@ export {
     RagKnowledgeRetrievalEnver
 } from './services/knowledge-retrieval';
 
+export {
+    RagRerankingBuild,
+    RagRerankingEnver
+} from './services/reranking';
+
 export {
     RagGenerationBuild,
     RagGenerationEnver
 } from './services/generation';
 
+export {
+    RagEvaluationBuild,
+    RagEvaluationEnver
+} from './services/evaluation';
+
 export {
     RagUserAuthBuild,
     RagUserAuthEnver
 } from './services/user-auth';
 
+export {
+    TenantIdSchema,
+    TenantSchema,
+    TenantRegistrySchema,
+    defaultTenant,
+    tenantIdsFromClaims,
+    authorizeTenant,
+    DocumentMetadataSchema,
+    DocumentTombstoneSchema,
+    DocumentStageSchema,
+    DocumentStatusStateSchema,
+    DocumentStatusSchema,
+    STATUS_API_STAGES,
+    isPurgeComplete,
+    PipelineStateSchema,
+    PipelineStageStatusSchema,
+    PipelineStatusSchema,
+    overallPipelineState,
+    RedrivePolicySchema,
+    parseRedrivePolicy,
+    ProcessedContentChunkSchema,
+    ProcessedContentSchema,
+    EmbeddingModelDescriptorSchema,
+    VectorIndexSlotSchema,
+    isEmbeddingModelCompatible,
+    inactiveIndexSlot,
+    EmbeddedChunkSchema,
+    EmbeddingsFileSchema,
+    VectorUpsertItemSchema,
+    VectorUpsertRequestSchema,
+    VectorMetadataSchema,
+    DocumentTermSchema,
+    HybridFusionStrategySchema,
+    HybridSearchModeSchema,
+    HybridSearchRequestSchema,
+    HybridSearchHitScoresSchema,
+    HybridSearchHitSchema,
+    HybridSearchResponseSchema,
+    RerankRequestSchema,
+    RerankedHitSchema,
+    RerankResponseSchema,
+    GenerationRequestSchema,
+    GenerationSourceSchema,
+    GenerationResponseSchema,
+    FeedbackSchema,
+    ConversationRoleSchema,
+    ConversationMessageSchema,
+    ConversationTtlPolicySchema,
+    ConversationSchema,
+    conversationPartitionKey,
+    conversationSortKey,
+    conversationExpiresAt,
+    EvaluationMetricsSchema,
+    GoldenQuestionSchema,
+    EvaluationQuestionResultSchema,
+    EvaluationReportSchema,
+    evaluationRegressions,
+    schemaCatalog,
+    schemaCatalogEntries,
+    catalogSchemaOf
+} from './schemas';
+
+export type {
+    TenantId,
+    Tenant,
+    TenantRegistry,
+    DocumentMetadata,
+    DocumentTombstone,
+    DocumentStage,
+    DocumentStatusState,
+    DocumentStatus,
+    PipelineState,
+    PipelineStageStatus,
+    PipelineStatus,
+    RedrivePolicy,
+    ProcessedContentChunk,
+    ProcessedContent,
+    EmbeddingModelDescriptor,
+    VectorIndexSlot,
+    EmbeddedChunk,
+    EmbeddingsFile,
+    VectorUpsertItem,
+    VectorUpsertRequest,
+    VectorMetadata,
+    DocumentTerm,
+    HybridFusionStrategy,
+    HybridSearchMode,
+    HybridSearchRequest,
+    HybridSearchHitScores,
+    HybridSearchHit,
+    HybridSearchResponse,
+    RerankRequest,
+    RerankedHit,
+    RerankResponse,
+    GenerationRequest,
+    GenerationSource,
+    GenerationResponse,
+    Feedback,
+    ConversationRole,
+    ConversationMessage,
+    Conversation,
+    ConversationTtlPolicy,
+    EvaluationMetrics,
+    GoldenQuestion,
+    EvaluationQuestionResult,
+    EvaluationReport,
+    EvaluationRegression,
+    SchemaCatalogEntry
+} from './schemas';
+
 export {
     SchemaTypeGenerator,
-    deploySchema
+    AwsSchemaTypeSource,
+    OfflineSchemaTypeSource,
+    deploySchema,
+    deployCatalogSchemas,
+    checkSchemaCompatibility,
+    incompatibleChanges,
+    formatSchemaCompatibilityReport,
+    InMemorySchemaStore,
+    LocalDirSchemaStore,
+    S3SchemaStore,
+    formatSchemaUrl,
+    parseSchemaUrl,
+    buildContractGraph,
+    renderContractGraph,
+    contractGraphToJson,
+    contractGraphToMermaid,
+    contractGraphToDot,
+    lintContracts,
+    lintContractGraph,
+    formatContractLintReport,
+    contractLintMatchers,
+    DEFAULT_PLACEHOLDER_PATTERNS,
+    localStandInValue,
+    localEnverConfig,
+    PayloadValidator,
+    PayloadValidationError,
+    formatPayloadValidationReport,
+    PipelineStatusClient,
+    pipelineStatusEndpoints,
+    buildOpenApiDocument,
+    buildOpenApiDocuments,
+    openApiRoutes,
+    OPENAPI_JWT_SCHEME,
+    buildAsyncApiDocument,
+    S3_METADATA_HEADERS,
+    producerChildren,
+    producerChildrenProps,
+    producerSchema,
+    producerValueKind,
+    producerSchemaSlots,
+    producerRouteSlots,
+    producerBucketSlots,
+    producerChildrenLayout,
+    producerChildrenSnapshot,
+    compareProducerChildrenSnapshots,
+    SchemaCrossRefConsumer
+} from './utils';
+
+export type {
+    SchemaTypeSource,
+    DeploySchemaOptions,
+    SchemaCompatibility,
+    SchemaCompatibilityLevel,
+    SchemaChangeKind,
+    SchemaFieldChange,
+    SchemaCompatibilityReport,
+    SchemaStore,
+    SchemaPublishRequest,
+    SchemaUrl,
+    ContractGraph,
+    ContractGraphNode,
+    ContractGraphEdge,
+    ContractGraphNodeKind,
+    ContractGraphFormat,
+    ContractLintRuleId,
+    ContractLintSeverity,
+    ContractLintFinding,
+    ContractLintReport,
+    ContractLintOptions,
+    PayloadValidationMode,
+    PayloadValidationIssue,
+    PayloadValidationReport,
+    PayloadValidatorOptions,
+    PipelineStatusEndpoints,
+    PipelineStatusFetch,
+    PipelineStatusClientOptions,
+    OpenApiOptions,
+    OpenApiSchemaObject,
+    OpenApiSchemaRef,
+    OpenApiParameter,
+    OpenApiMediaType,
+    OpenApiRequestBody,
+    OpenApiResponse,
+    OpenApiSecurityRequirement,
+    OpenApiOperation,
+    OpenApiPathItem,
+    OpenApiSecurityScheme,
+    OpenApiDocument,
+    S3MetadataKey,
+    S3MetadataHeader,
+    AsyncApiSchemaObject,
+    AsyncApiRef,
+    AsyncApiChannel,
+    AsyncApiOperation,
+    AsyncApiMessage,
+    AsyncApiDocument,
+    ProducerChildSpec,
+    ProducerChildSpecs,
+    ProducerChildName,
+    ProducerChildren,
+    ProducerChildProps,
+    ProducerChildLayout,
+    ProducerChildrenSnapshot,
+    ProducerChildrenChange,
+    ProducerSchemaSlot,
+    ProducerRouteMethod,
+    ProducerRoute,
+    ProducerRoutePayload,
+    ProducerRoutePayloadSlot,
+    ProducerRouteSlot,
+    ProducerOwnSpec,
+    ProducerBucketObjects,
+    ProducerBucketSlot,
+    ProducerValueKind,
+    SchemaProducer,
+    ProducerSchema,
+    SchemaPayload
 } from './utils'; 
\ No newline at end of file
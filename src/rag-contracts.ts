@@ -2,7 +2,15 @@ import {App} from 'aws-cdk-lib';
 import {OndemandContracts, OdmdBuildNetworking} from "@ondemandenv/contracts-lib-base";
 
 // Import types
-import type {AccountsRag, GithubReposRag} from "./types";
+import type {
+    AccountsRag,
+    GithubReposRag,
+    RagContractsOptions,
+    RagEnverLaneConfig,
+    RagEnverTopology,
+    RagEphemeralEnvers,
+    RagLocalStandIns
+} from "./types";
 
 // Import service classes
 import {RagDocumentIngestionBuild} from "./services/document-ingestion";
@@ -10,12 +18,30 @@ import {RagDocumentProcessingBuild} from "./services/document-processing";
 import {RagEmbeddingBuild} from "./services/embedding";
 import {RagVectorStorageBuild} from "./services/vector-storage";
 import {RagKnowledgeRetrievalBuild} from "./services/knowledge-retrieval";
+import {RagRerankingBuild} from "./services/reranking";
 import {RagGenerationBuild} from "./services/generation";
+import {RagEvaluationBuild} from "./services/evaluation";
 import {RagUserAuthBuild, RagUserAuthEnver} from "./services/user-auth";
 
+import {RagLaneResolver} from "./rag-lane-resolver";
+import {buildContractGraph, ContractGraph, ContractGraphFormat, renderContractGraph} from "./utils/contract-graph";
+
 // Import contracts build
 import {OdmdBuildContractsRag} from "./contracts-build";
 
+/**
+ * Stand-ins used by `new RagContracts(app, {local: true})`
+ */
+export const DEFAULT_LOCAL_STAND_INS: RagLocalStandIns = {
+    bucketDir: '.rag-local/buckets',
+    httpEndpoint: 'http://localhost:3000'
+};
+
+/**
+ * Placeholder build account of local mode when none is given, and target account of local lane envers
+ */
+export const LOCAL_BUILD_ACCOUNT = '000000000000';
+
 /**
  * Main RAG Contracts class extending OndemandContracts
  * Implements the singleton pattern for consistent contract access
@@ -37,7 +63,7 @@ export class RagContracts extends OndemandContracts<AccountsRag, GithubReposRag,
     /**
      * Constructor following OndemandEnv platform patterns
      */
-    constructor(app: App) {
+    constructor(app: App, options: RagContractsOptions = {}) {
         super(app, 'RagContracts');
 
         if (RagContracts._inst) {
@@ -45,13 +71,20 @@ export class RagContracts extends OndemandContracts<AccountsRag, GithubReposRag,
         }
         RagContracts._inst = this;
 
+        // Local mode must be known before builds read the enver topology
+        this.localStandIns = options.local === true ? DEFAULT_LOCAL_STAND_INS : options.local || undefined;
+        this.ephemeralEnvers = options.ephemeralEnvers ?? {};
+        this.workQueues = options.workQueues ?? false;
+
         // Initialize all service builds
         this.ragDocumentIngestionBuild = new RagDocumentIngestionBuild(this);
         this.ragDocumentProcessingBuild = new RagDocumentProcessingBuild(this);
         this.ragEmbeddingBuild = new RagEmbeddingBuild(this);
         this.ragVectorStorageBuild = new RagVectorStorageBuild(this);
         this.ragKnowledgeRetrievalBuild = new RagKnowledgeRetrievalBuild(this);
+        this.ragRerankingBuild = options.reranking ? new RagRerankingBuild(this) : undefined;
         this.ragGenerationBuild = new RagGenerationBuild(this);
+        this.ragEvaluationBuild = new RagEvaluationBuild(this);
 
         // Validate no duplicate builds
         let tmpSet = new Set(this.odmdBuilds);
@@ -63,24 +96,36 @@ export class RagContracts extends OndemandContracts<AccountsRag, GithubReposRag,
             throw new Error('Duplicated builds detected!');
         }
 
-        // Validate environment variables
-        if (!process.env.CDK_CLI_VERSION) {
-            console.warn("CDK_CLI_VERSION environment variable not found!");
+        const pipelineBuildIds = this.laneResolver.pipeline.map(b => b.buildId);
+        const unknownBuildIds = Object.keys(this.ephemeralEnvers).filter(id => !pipelineBuildIds.includes(id));
+        if (unknownBuildIds.length > 0) {
+            throw new Error(`Ephemeral envers declared for unknown builds: ${unknownBuildIds.join(', ')}, known builds: ${pipelineBuildIds.join(', ')}`);
         }
 
-        const buildRegion = process.env.CDK_DEFAULT_REGION;
-        let buildAccount: string;
-        if (process.env.CDK_DEFAULT_ACCOUNT) {
-            buildAccount = process.env.CDK_DEFAULT_ACCOUNT;
+        // Resolve build account and region, local mode needs no AWS environment
+        if (this.localStandIns) {
+            this.buildRegion = options.buildRegion ?? process.env.CDK_DEFAULT_REGION ?? 'us-east-2';
+            this.buildAccount = options.buildAccount ?? process.env.CDK_DEFAULT_ACCOUNT ?? LOCAL_BUILD_ACCOUNT;
         } else {
-            console.warn(`CDK_DEFAULT_ACCOUNT undefined, trying CodeBuild: ${process.env.CODEBUILD_BUILD_ARN}`);
-            if (!process.env.CODEBUILD_BUILD_ARN) {
-                console.warn(`CODEBUILD_BUILD_ARN undefined, unable to initialize without account information.`);
+            if (!process.env.CDK_CLI_VERSION) {
+                console.warn("CDK_CLI_VERSION environment variable not found!");
+            }
+
+            this.buildRegion = options.buildRegion ?? process.env.CDK_DEFAULT_REGION;
+            if (options.buildAccount) {
+                this.buildAccount = options.buildAccount;
+            } else if (process.env.CDK_DEFAULT_ACCOUNT) {
+                this.buildAccount = process.env.CDK_DEFAULT_ACCOUNT;
+            } else {
+                console.warn(`CDK_DEFAULT_ACCOUNT undefined, trying CodeBuild: ${process.env.CODEBUILD_BUILD_ARN}`);
+                if (!process.env.CODEBUILD_BUILD_ARN) {
+                    console.warn(`CODEBUILD_BUILD_ARN undefined, unable to initialize without account information, pass buildAccount or use local mode.`);
+                }
+                this.buildAccount = process.env.CODEBUILD_BUILD_ARN?.split(":")[4];
+            }
+            if (!this.buildRegion || !this.buildAccount) {
+                console.warn("buildRegion>" + this.buildRegion + "; buildAccount>" + this.buildAccount);
             }
-            buildAccount = process.env.CODEBUILD_BUILD_ARN!.split(":")[4];
-        }
-        if (!buildRegion || !buildAccount) {
-            console.warn("buildRegion>" + buildRegion + "; buildAccount>" + buildAccount);
         }
 
         // Wire all consuming relationships
@@ -88,16 +133,61 @@ export class RagContracts extends OndemandContracts<AccountsRag, GithubReposRag,
         this.ragDocumentProcessingBuild.wireConsuming();
         this.ragVectorStorageBuild.wireConsuming();
         this.ragKnowledgeRetrievalBuild.wireConsuming();
+        this.ragRerankingBuild?.wireConsuming();
+        this.ragGenerationBuild.wireConsuming();
+        this.ragEvaluationBuild.wireConsuming();
         (this.userAuth!.envers[0] as RagUserAuthEnver).wireConsuming();
         
         // Wire document ingestion last since it consumes from other services
         this.ragDocumentIngestionBuild.wireConsuming();
 
+        // Every lane must consume only from its own lane, ephemeral lanes also from their parent lane
+        this.laneResolver.validateLanes();
+
         this.odmdBuilds.forEach(build => {
             console.log(build.buildId)
         })
     }
 
+    /**
+     * Producer/consumer graph of every build, enver, producer and consumer
+     */
+    get contractGraph(): ContractGraph {
+        return buildContractGraph(this);
+    }
+
+    /**
+     * Contract graph rendered as JSON, Mermaid or Graphviz DOT
+     */
+    exportContractGraph(format: ContractGraphFormat): string {
+        return renderContractGraph(this.contractGraph, format);
+    }
+
+    /**
+     * Account and region the contracts are synthesized in
+     */
+    readonly buildAccount: string | undefined;
+    readonly buildRegion: string | undefined;
+
+    /**
+     * Set in local mode, stand-ins of the `local` lane
+     */
+    readonly localStandIns: RagLocalStandIns | undefined;
+
+    get isLocal(): boolean {
+        return this.localStandIns !== undefined;
+    }
+
+    /**
+     * On-demand branch envers per build id, created after the topology lanes
+     */
+    readonly ephemeralEnvers: RagEphemeralEnvers;
+
+    /**
+     * Set with `workQueues: true`, the S3-event-driven stages then hand work over through SQS work queues
+     */
+    readonly workQueues: boolean;
+
     createContractsLibBuild(): OdmdBuildContractsRag {
         return new OdmdBuildContractsRag(this);
     }
@@ -129,6 +219,59 @@ export class RagContracts extends OndemandContracts<AccountsRag, GithubReposRag,
         return this._accounts;
     }
 
+    private _enverTopology!: RagEnverTopology;
+    /**
+     * Enver lanes shared by all RAG service builds, each build creates one enver per lane
+     */
+    get enverTopology(): RagEnverTopology {
+        if (!this._enverTopology) {
+            this._enverTopology = {
+                dev: {
+                    account: 'workspace1',
+                    region: 'us-east-2',
+                    revision: {type: 'b', value: 'dev'}
+                },
+                prod: {
+                    account: 'workspace2',
+                    region: 'us-east-2',
+                    revision: {type: 'b', value: 'main'}
+                },
+            };
+            if (this.localStandIns) {
+                this._enverTopology.local = {
+                    region: 'us-east-2',
+                    revision: {type: 'b', value: 'local'},
+                    localStandIns: this.localStandIns
+                };
+            }
+        }
+        return this._enverTopology;
+    }
+
+    /**
+     * Target account of a topology lane, local lanes never deploy to a workspace account
+     */
+    accountOfLane(lane: RagEnverLaneConfig): string {
+        if (lane.localStandIns) {
+            return LOCAL_BUILD_ACCOUNT;
+        }
+        if (!lane.account) {
+            throw new Error('Only local lanes can go without an account');
+        }
+        return this.accounts[lane.account];
+    }
+
+        private _laneResolver!: RagLaneResolver;
+    /**
+     * Pairs envers of the same lane across service builds
+     */
+    get laneResolver(): RagLaneResolver {
+        if (!this._laneResolver) {
+            this._laneResolver = new RagLaneResolver(this);
+        }
+        return this._laneResolver;
+    }
+
     private _allAccounts!: string[];
     get allAccounts(): string[] {
         if (!this._allAccounts) {
@@ -183,10 +326,20 @@ export class RagContracts extends OndemandContracts<AccountsRag, GithubReposRag,
                     name: 'rag-knowledge-retrieval-service',
                     ghAppInstallID
                 },
+                ragReranking: {
+                    owner: 'odmd-rag',
+                    name: 'rag-reranking-service',
+                    ghAppInstallID
+                },
                 ragGeneration: {
                     owner: 'odmd-rag',
                     name: 'rag-generation-service',
                     ghAppInstallID
+                },
+                ragEvaluation: {
+                    owner: 'odmd-rag',
+                    name: 'rag-evaluation-service',
+                    ghAppInstallID
                 }
             };
         }
@@ -199,5 +352,10 @@ export class RagContracts extends OndemandContracts<AccountsRag, GithubReposRag,
     public readonly ragEmbeddingBuild: RagEmbeddingBuild;
     public readonly ragVectorStorageBuild: RagVectorStorageBuild;
     public readonly ragKnowledgeRetrievalBuild: RagKnowledgeRetrievalBuild;
+    /**
+     * Set when constructed with `reranking: true`
+     */
+    public readonly ragRerankingBuild: RagRerankingBuild | undefined;
     public readonly ragGenerationBuild: RagGenerationBuild;
+    public readonly ragEvaluationBuild: RagEvaluationBuild;
 } 
\ No newline at end of file
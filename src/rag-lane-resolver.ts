@@ -0,0 +1,126 @@
+import { AnyOdmdEnVer, OdmdCrossRefConsumer, OdmdEnverCdk } from "@ondemandenv/contracts-lib-base";
+import type { RagContracts } from "./rag-contracts";
+import { RagServiceBuild } from "./services/rag-service-build";
+
+/**
+ * Resolves which envers form one pipeline lane:
+ * ingestion → processing → embedding → vector storage → retrieval → (reranking) → generation
+ */
+export class RagLaneResolver {
+    constructor(private readonly contracts: RagContracts) {
+    }
+
+    /**
+     * Service builds in pipeline order, upstream first
+     */
+    get pipeline(): RagServiceBuild<OdmdEnverCdk>[] {
+        return [
+            this.contracts.ragDocumentIngestionBuild,
+            this.contracts.ragDocumentProcessingBuild,
+            this.contracts.ragEmbeddingBuild,
+            this.contracts.ragVectorStorageBuild,
+            this.contracts.ragKnowledgeRetrievalBuild,
+            ...(this.contracts.ragRerankingBuild ? [this.contracts.ragRerankingBuild] : []),
+            this.contracts.ragGenerationBuild,
+        ];
+    }
+
+    /**
+     * Topology lane of a service enver, undefined for envers outside the lanes (user auth, contracts lib)
+     */
+    laneOf(enver: AnyOdmdEnVer): string | undefined {
+        const build = enver.owner;
+        return build instanceof RagServiceBuild ? build.laneOf(enver as OdmdEnverCdk) : undefined;
+    }
+
+    /**
+     * Parent lane of an ephemeral lane, undefined for topology lanes and unknown names
+     */
+    parentLane(laneName: string): string | undefined {
+        const parents = new Set(Object.values(this.contracts.ephemeralEnvers)
+            .map(lanes => lanes[laneName]?.parentLane)
+            .filter((p): p is string => p !== undefined));
+        if (parents.size > 1) {
+            throw new Error(`Ephemeral lane '${laneName}' is declared with different parent lanes: ${Array.from(parents).join(', ')}`);
+        }
+        return parents.values().next().value;
+    }
+
+    /**
+     * Whether the enver belongs to an ephemeral lane
+     */
+    isEphemeral(enver: AnyOdmdEnVer): boolean {
+        const laneName = this.laneOf(enver);
+        return laneName !== undefined && this.parentLane(laneName) !== undefined;
+    }
+
+    /**
+     * The enver of `build` in the same lane as `enver`,
+     * in the parent lane for an ephemeral lane the build has no enver in
+     */
+    peer<E extends OdmdEnverCdk>(enver: AnyOdmdEnVer, build: RagServiceBuild<E>): E {
+        const laneName = this.laneOf(enver);
+        if (laneName === undefined) {
+            throw new Error(`${enver.node.path} is not in any enver lane, can't pair it with ${build.buildId}`);
+        }
+        return build.getEnver(laneName);
+    }
+
+    /**
+     * Same-lane enver of the previous pipeline stage, undefined for ingestion
+     */
+    upstream(enver: AnyOdmdEnVer): OdmdEnverCdk | undefined {
+        const i = this.stageIndex(enver);
+        return i > 0 ? this.peer(enver, this.pipeline[i - 1]) : undefined;
+    }
+
+    /**
+     * Same-lane enver of the next pipeline stage, undefined for generation
+     */
+    downstream(enver: AnyOdmdEnVer): OdmdEnverCdk | undefined {
+        const i = this.stageIndex(enver);
+        return i < this.pipeline.length - 1 ? this.peer(enver, this.pipeline[i + 1]) : undefined;
+    }
+
+    /**
+     * Throws if an ephemeral enver is consumed by a long-lived one,
+     * or if any lane enver consumes from a producer owned by an enver of another lane
+     * (an ephemeral lane may consume from its parent lane)
+     */
+    validateLanes(): void {
+        const consumers = this.contracts.node.findAll()
+            .filter(c => c instanceof OdmdCrossRefConsumer)
+            .map(c => c as OdmdCrossRefConsumer<AnyOdmdEnVer, AnyOdmdEnVer>);
+        const describe = (c: OdmdCrossRefConsumer<AnyOdmdEnVer, AnyOdmdEnVer>) =>
+            `${c.node.path} (${this.laneOf(c.owner) ?? 'no lane'}) consumes ${c.producer.node.path} (${this.laneOf(c.producer.owner)})`;
+
+        const ephemeralConsumed = consumers
+            .filter(c => this.isEphemeral(c.producer.owner) && !this.isEphemeral(c.owner))
+            .map(describe);
+
+        if (ephemeralConsumed.length > 0) {
+            throw new Error(`Ephemeral envers consumed by long-lived envers:\n${ephemeralConsumed.join('\n')}`);
+        }
+
+        const crossLane = consumers
+            .filter(c => {
+                const consumerLane = this.laneOf(c.owner);
+                const producerLane = this.laneOf(c.producer.owner);
+                return consumerLane !== undefined && producerLane !== undefined && consumerLane !== producerLane
+                    && this.parentLane(consumerLane) !== producerLane;
+            })
+            .map(describe);
+
+        if (crossLane.length > 0) {
+            throw new Error(`Cross-lane consumption detected:\n${crossLane.join('\n')}`);
+        }
+    }
+
+    private stageIndex(enver: AnyOdmdEnVer): number {
+        const i = this.pipeline.indexOf(enver.owner as RagServiceBuild<OdmdEnverCdk>);
+        if (i < 0) {
+            throw new Error(`${enver.node.path} is not a pipeline service enver`);
+        }
+        return i;
+    }
+}
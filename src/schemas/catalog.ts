@@ -0,0 +1,57 @@
+import type {ZodObject} from 'zod';
+import type {AnyOdmdEnVer, OdmdCrossRefProducer} from "@ondemandenv/contracts-lib-base";
+import type {RagContracts} from "../rag-contracts";
+import {producerSchema, producerSchemaSlots} from '../utils/producer-children';
+
+/**
+ * A schema bound to the producer child it is published to
+ */
+export interface SchemaCatalogEntry {
+    buildId: string;
+    /**
+     * Accessor name of the producer child, e.g. 'docMetadataSchemaS3Url'
+     */
+    child: string;
+    schema: ZodObject<any>;
+    /**
+     * The producer child on an enver of the build
+     */
+    producer(enver: AnyOdmdEnVer): OdmdCrossRefProducer<AnyOdmdEnVer>;
+}
+
+/**
+ * The enver's schema slots, the children its producers declare with `schema`, in construct order
+ */
+export function schemaCatalogEntries(enver: AnyOdmdEnVer): SchemaCatalogEntry[] {
+    const buildId = enver.owner.buildId;
+    return producerSchemaSlots(enver).map(slot => ({
+        buildId,
+        child: slot.name,
+        schema: slot.schema,
+        producer: (other: AnyOdmdEnVer) => {
+            const found = producerSchemaSlots(other).find(s => s.name == slot.name);
+            if (!found) {
+                throw new Error(`${other.node.path} has no schema slot ${slot.name}`);
+            }
+            return found.producer;
+        }
+    }));
+}
+
+/**
+ * Every schema slot of the contracts with the Zod schema it is published from, in build order.
+ * Envers of a build share their producers' child specs, so the first enver stands for the build.
+ */
+export function schemaCatalog(contracts: RagContracts): SchemaCatalogEntry[] {
+    return contracts.odmdBuilds.flatMap(build => {
+        const envers = build.envers as AnyOdmdEnVer[];
+        return envers.length > 0 ? schemaCatalogEntries(envers[0]) : [];
+    });
+}
+
+/**
+ * The catalog schema a producer child is published from, undefined for producers without one
+ */
+export function catalogSchemaOf(producer: OdmdCrossRefProducer<AnyOdmdEnVer>): ZodObject<any> | undefined {
+    return producerSchema(producer);
+}
@@ -0,0 +1,84 @@
+import {z} from 'zod';
+import {TenantIdSchema} from './tenant';
+
+export const ConversationRoleSchema = z.enum(['user', 'assistant']);
+
+/**
+ * Contract `ConversationStoreProducer.conversationMessageSchemaS3Url` is published from,
+ * one item per turn of a conversation
+ */
+export const ConversationMessageSchema = z.object({
+    tenantId: TenantIdSchema,
+    userId: z.string().min(1),
+    conversationId: z.string().min(1),
+    /**
+     * 0-based position in the conversation, user and assistant messages alternate
+     */
+    turn: z.number().int().nonnegative(),
+    role: ConversationRoleSchema,
+    content: z.string(),
+    createdAt: z.string(),
+    /**
+     * Epoch seconds, the store's TTL attribute
+     */
+    expiresAt: z.number().int().positive(),
+    /**
+     * Chunks an assistant message was grounded on
+     */
+    sources: z.array(z.object({
+        documentId: z.string(),
+        chunkId: z.string()
+    })).optional()
+});
+
+/**
+ * Contract `ConversationStoreProducer.conversationTtlPolicy` is published from, as JSON
+ */
+export const ConversationTtlPolicySchema = z.object({
+    ttlAttribute: z.literal('expiresAt'),
+    retentionDays: z.number().int().positive(),
+    /**
+     * Every new turn pushes expiresAt of the whole conversation
+     */
+    extendOnActivity: z.boolean()
+});
+
+/**
+ * Contract `GenerationApiProducer.conversationSchema` is published from,
+ * a whole conversation as read back from the conversation store
+ */
+export const ConversationSchema = z.object({
+    tenantId: TenantIdSchema,
+    userId: z.string().min(1),
+    conversationId: z.string().min(1),
+    messages: z.array(ConversationMessageSchema),
+    createdAt: z.string(),
+    updatedAt: z.string()
+});
+
+export type ConversationRole = z.infer<typeof ConversationRoleSchema>;
+export type ConversationMessage = z.infer<typeof ConversationMessageSchema>;
+export type Conversation = z.infer<typeof ConversationSchema>;
+export type ConversationTtlPolicy = z.infer<typeof ConversationTtlPolicySchema>;
+
+/**
+ * Partition key of a user's conversations, `<tenantId>#<userId>`,
+ * a user's history is read without touching other users or tenants
+ */
+export function conversationPartitionKey(message: Pick<ConversationMessage, 'tenantId' | 'userId'>): string {
+    return `${message.tenantId}#${message.userId}`;
+}
+
+/**
+ * Sort key of a message, `<conversationId>#<turn>` with the turn zero-padded so turns sort in order
+ */
+export function conversationSortKey(message: Pick<ConversationMessage, 'conversationId' | 'turn'>): string {
+    return `${message.conversationId}#${message.turn.toString().padStart(6, '0')}`;
+}
+
+/**
+ * expiresAt of a message created at `createdAt` under the policy
+ */
+export function conversationExpiresAt(createdAt: Date, policy: ConversationTtlPolicy): number {
+    return Math.floor(createdAt.getTime() / 1000) + policy.retentionDays * 24 * 60 * 60;
+}
@@ -0,0 +1,20 @@
+import {z} from 'zod';
+import {TenantIdSchema} from './tenant';
+
+/**
+ * Contract `DocumentStorageResourceProducer.docMetadataSchemaS3Url` is published from
+ */
+export const DocumentMetadataSchema = z.object({
+    documentId: z.string(),
+    tenantId: TenantIdSchema,
+    s3Bucket: z.string(),
+    s3Key: z.string(),
+    documentType: z.string(),
+    fileSize: z.number().nonnegative(),
+    checksum: z.string().optional(),
+    uploadedBy: z.string(),
+    uploadedAt: z.string().datetime(),
+    originalFileName: z.string()
+});
+
+export type DocumentMetadata = z.infer<typeof DocumentMetadataSchema>;
@@ -0,0 +1,51 @@
+import {z} from 'zod';
+
+export const DocumentStageSchema = z.enum(['ingestion', 'processing', 'embedding', 'vector-storage']);
+
+/**
+ * 'deleted' once a stage applied the document's tombstone, 'purged' when none of its data is left in that stage
+ */
+export const DocumentStatusStateSchema = z.enum(['pending', 'processing', 'completed', 'failed', 'deleted', 'purged']);
+
+/**
+ * Status API response of every stage, the `statusResponseSchema` children are published from it
+ */
+export const DocumentStatusSchema = z.object({
+    documentId: z.string(),
+    status: DocumentStatusStateSchema,
+    stage: DocumentStageSchema,
+    /**
+     * Last status change
+     */
+    timestamp: z.string(),
+    /**
+     * When the stage started on the document
+     */
+    startedAt: z.string().optional(),
+    metadata: z.object({
+        processingTime: z.number().optional(),
+        errorMessage: z.string().optional(),
+        fileSize: z.number().optional(),
+        chunkCount: z.number().optional(),
+        embeddingCount: z.number().optional(),
+        vectorCount: z.number().optional(),
+        homeServerStatus: z.string().optional()
+    }).optional()
+});
+
+export type DocumentStage = z.infer<typeof DocumentStageSchema>;
+export type DocumentStatusState = z.infer<typeof DocumentStatusStateSchema>;
+export type DocumentStatus = z.infer<typeof DocumentStatusSchema>;
+
+/**
+ * Stages with a status API, ingestion has none and only publishes the tombstone
+ */
+export const STATUS_API_STAGES: readonly DocumentStage[] = ['processing', 'embedding', 'vector-storage'];
+
+/**
+ * Whether every stage with a status API reported the document purged, the end of an end-to-end purge
+ */
+export function isPurgeComplete(statuses: DocumentStatus[]): boolean {
+    const purged = new Set(statuses.filter(s => s.status == 'purged').map(s => s.stage));
+    return STATUS_API_STAGES.every(stage => purged.has(stage));
+}
@@ -0,0 +1,18 @@
+import {z} from 'zod';
+
+/**
+ * Contract `DocumentDeletionEventsProducer.tombstoneSchemaS3Url` is published from,
+ * one event per deleted or replaced document
+ */
+export const DocumentTombstoneSchema = z.object({
+    documentId: z.string(),
+    reason: z.enum(['deleted', 'replaced']),
+    /**
+     * Set when reason is 'replaced', the document superseding this one
+     */
+    replacedByDocumentId: z.string().optional(),
+    deletedAt: z.string().datetime(),
+    deletedBy: z.string().optional()
+});
+
+export type DocumentTombstone = z.infer<typeof DocumentTombstoneSchema>;
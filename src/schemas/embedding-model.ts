@@ -0,0 +1,30 @@
+import {z} from 'zod';
+
+/**
+ * Values of `EmbeddingModelDescriptorProducer`, one child each
+ */
+export const EmbeddingModelDescriptorSchema = z.object({
+    modelId: z.string().min(1),
+    dimension: z.number().int().positive(),
+    normalization: z.enum(['none', 'l2']),
+    modelVersion: z.string().min(1)
+});
+
+/**
+ * Value of `VectorIndexSlotsProducer.activeIndexSlot`
+ */
+export const VectorIndexSlotSchema = z.enum(['blue', 'green']);
+
+export type EmbeddingModelDescriptor = z.infer<typeof EmbeddingModelDescriptorSchema>;
+export type VectorIndexSlot = z.infer<typeof VectorIndexSlotSchema>;
+
+/**
+ * Whether vectors of both descriptors can share one index, the version alone doesn't matter
+ */
+export function isEmbeddingModelCompatible(a: EmbeddingModelDescriptor, b: EmbeddingModelDescriptor): boolean {
+    return a.modelId == b.modelId && a.dimension == b.dimension && a.normalization == b.normalization;
+}
+
+export function inactiveIndexSlot(active: VectorIndexSlot): VectorIndexSlot {
+    return active == 'blue' ? 'green' : 'blue';
+}
@@ -0,0 +1,32 @@
+import {z} from 'zod';
+import {TenantIdSchema} from './tenant';
+
+/**
+ * One chunk's vector, vector storage upserts the items as they are, see VectorUpsertItemSchema
+ */
+export const EmbeddedChunkSchema = z.object({
+    chunkId: z.string(),
+    vector: z.array(z.number()),
+    content: z.string().optional(),
+    metadata: z.record(z.string(), z.unknown()).optional()
+});
+
+/**
+ * Contract `EmbeddingStorageProducer.embeddingStatusSchemaS3Url` is published from,
+ * one JSON file per document in the embedding bucket, its status is kept in object metadata
+ */
+export const EmbeddingsFileSchema = z.object({
+    documentId: z.string(),
+    tenantId: TenantIdSchema,
+    /**
+     * Descriptor the vectors were produced with, see EmbeddingModelDescriptorSchema
+     */
+    modelId: z.string(),
+    modelVersion: z.string(),
+    dimension: z.number().int().positive(),
+    embeddings: z.array(EmbeddedChunkSchema),
+    createdAt: z.string().datetime()
+});
+
+export type EmbeddedChunk = z.infer<typeof EmbeddedChunkSchema>;
+export type EmbeddingsFile = z.infer<typeof EmbeddingsFileSchema>;
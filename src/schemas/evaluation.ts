@@ -0,0 +1,82 @@
+import {z} from 'zod';
+import {TenantIdSchema} from './tenant';
+
+const Score = z.number().min(0).max(1);
+
+/**
+ * Quality metrics of one evaluation run or question, each in [0, 1], higher is better
+ */
+export const EvaluationMetricsSchema = z.object({
+    /**
+     * Share of the answer supported by the retrieved context
+     */
+    groundedness: Score,
+    /**
+     * Share of questions whose expected documents were retrieved
+     */
+    retrievalHitRate: Score,
+    answerRelevance: Score
+});
+
+/**
+ * One item of the golden-question dataset, contract `GoldenDatasetProducer.goldenQuestionSchemaS3Url` is published from
+ */
+export const GoldenQuestionSchema = z.object({
+    questionId: z.string(),
+    tenantId: TenantIdSchema,
+    question: z.string().min(1),
+    expectedAnswer: z.string().optional(),
+    expectedDocumentIds: z.array(z.string())
+});
+
+export const EvaluationQuestionResultSchema = z.object({
+    questionId: z.string(),
+    answer: z.string(),
+    retrievedDocumentIds: z.array(z.string()),
+    metrics: EvaluationMetricsSchema
+});
+
+/**
+ * Contract `EvaluationReportProducer.evaluationReportSchemaS3Url` is published from
+ */
+export const EvaluationReportSchema = z.object({
+    runId: z.string(),
+    lane: z.string(),
+    /**
+     * Generation revision the questions were replayed against, e.g. its git sha
+     */
+    generationRevision: z.string(),
+    datasetVersion: z.string(),
+    startedAt: z.string().datetime(),
+    completedAt: z.string().datetime(),
+    metrics: EvaluationMetricsSchema,
+    questions: z.array(EvaluationQuestionResultSchema)
+});
+
+export type EvaluationMetrics = z.infer<typeof EvaluationMetricsSchema>;
+export type GoldenQuestion = z.infer<typeof GoldenQuestionSchema>;
+export type EvaluationQuestionResult = z.infer<typeof EvaluationQuestionResultSchema>;
+export type EvaluationReport = z.infer<typeof EvaluationReportSchema>;
+
+export interface EvaluationRegression {
+    metric: keyof EvaluationMetrics;
+    baseline: number;
+    candidate: number;
+}
+
+/**
+ * Metrics the candidate run dropped by more than `maxDrop` against the baseline, empty when it may be promoted.
+ * Runs of different dataset versions are not comparable.
+ */
+export function evaluationRegressions(
+    baseline: EvaluationReport,
+    candidate: EvaluationReport,
+    maxDrop = 0
+): EvaluationRegression[] {
+    if (baseline.datasetVersion != candidate.datasetVersion) {
+        throw new Error(`Evaluation runs ${baseline.runId} and ${candidate.runId} used different datasets: ${baseline.datasetVersion}, ${candidate.datasetVersion}`);
+    }
+    return (Object.keys(EvaluationMetricsSchema.shape) as (keyof EvaluationMetrics)[])
+        .filter(metric => baseline.metrics[metric] - candidate.metrics[metric] > maxDrop)
+        .map(metric => ({metric, baseline: baseline.metrics[metric], candidate: candidate.metrics[metric]}));
+}
@@ -0,0 +1,61 @@
+import {z} from 'zod';
+import {TenantIdSchema} from './tenant';
+import {HybridSearchModeSchema} from './hybrid-search';
+
+/**
+ * Contract `GenerationApiProducer.generationRequestSchema` is published from
+ */
+export const GenerationRequestSchema = z.object({
+    tenantId: TenantIdSchema,
+    /**
+     * Continues the conversation, absent starts a new one
+     */
+    conversationId: z.string().optional(),
+    query: z.string().min(1),
+    topK: z.number().int().positive().optional(),
+    hybrid: HybridSearchModeSchema.optional(),
+    stream: z.boolean().optional()
+});
+
+export const GenerationSourceSchema = z.object({
+    documentId: z.string(),
+    chunkId: z.string(),
+    score: z.number(),
+    content: z.string().optional()
+});
+
+/**
+ * Contract `GenerationApiProducer.generationResponseSchema` is published from
+ */
+export const GenerationResponseSchema = z.object({
+    conversationId: z.string(),
+    /**
+     * Turn of the answer in the conversation, feedback refers to it
+     */
+    turn: z.number().int().nonnegative(),
+    answer: z.string(),
+    sources: z.array(GenerationSourceSchema),
+    modelId: z.string().optional(),
+    usage: z.object({
+        inputTokens: z.number().int().nonnegative(),
+        outputTokens: z.number().int().nonnegative()
+    }).optional()
+});
+
+/**
+ * Contract `GenerationApiProducer.feedbackSchema` is published from
+ */
+export const FeedbackSchema = z.object({
+    tenantId: TenantIdSchema,
+    userId: z.string().min(1),
+    conversationId: z.string(),
+    turn: z.number().int().nonnegative(),
+    rating: z.enum(['up', 'down']),
+    comment: z.string().optional(),
+    createdAt: z.string().datetime()
+});
+
+export type GenerationRequest = z.infer<typeof GenerationRequestSchema>;
+export type GenerationSource = z.infer<typeof GenerationSourceSchema>;
+export type GenerationResponse = z.infer<typeof GenerationResponseSchema>;
+export type Feedback = z.infer<typeof FeedbackSchema>;
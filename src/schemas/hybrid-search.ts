@@ -0,0 +1,77 @@
+import {z} from 'zod';
+import {TenantIdSchema} from './tenant';
+
+/**
+ * How lexical and semantic hit lists are merged:
+ * reciprocal rank fusion or a weighted sum of normalized scores
+ */
+export const HybridFusionStrategySchema = z.enum(['rrf', 'weighted-sum']);
+
+/**
+ * Hybrid-mode part of the search request, absent means semantic only
+ */
+export const HybridSearchModeSchema = z.object({
+    mode: z.enum(['semantic', 'lexical', 'hybrid']),
+    fusion: HybridFusionStrategySchema.optional(),
+    /**
+     * Used by 'weighted-sum', each in [0, 1]
+     */
+    weights: z.object({
+        lexical: z.number().min(0).max(1),
+        semantic: z.number().min(0).max(1)
+    }).optional(),
+    /**
+     * Rank constant of 'rrf', 60 when absent
+     */
+    rrfK: z.number().int().positive().optional()
+});
+
+/**
+ * Contract `VectorSearchProxyApiProducer.searchRequestSchema` is published from
+ */
+export const HybridSearchRequestSchema = z.object({
+    /**
+     * Must be one of the tenants in the caller's tenant claim
+     */
+    tenantId: TenantIdSchema,
+    query: z.string().min(1),
+    topK: z.number().int().positive(),
+    filters: z.record(z.string(), z.unknown()).optional(),
+    hybrid: HybridSearchModeSchema.optional()
+});
+
+/**
+ * Per-hit scores, lexical and semantic are set when the hit was found by that retriever
+ */
+export const HybridSearchHitScoresSchema = z.object({
+    lexical: z.number().optional(),
+    semantic: z.number().optional(),
+    fused: z.number()
+});
+
+export const HybridSearchHitSchema = z.object({
+    tenantId: TenantIdSchema,
+    chunkId: z.string(),
+    documentId: z.string(),
+    content: z.string(),
+    score: z.number(),
+    scores: HybridSearchHitScoresSchema,
+    metadata: z.record(z.string(), z.unknown()).optional()
+});
+
+/**
+ * Contract `VectorSearchProxyApiProducer.searchResponseSchema` is published from
+ */
+export const HybridSearchResponseSchema = z.object({
+    hits: z.array(HybridSearchHitSchema),
+    mode: HybridSearchModeSchema.shape.mode,
+    fusion: HybridFusionStrategySchema.optional(),
+    tookMs: z.number().nonnegative().optional()
+});
+
+export type HybridFusionStrategy = z.infer<typeof HybridFusionStrategySchema>;
+export type HybridSearchMode = z.infer<typeof HybridSearchModeSchema>;
+export type HybridSearchRequest = z.infer<typeof HybridSearchRequestSchema>;
+export type HybridSearchHitScores = z.infer<typeof HybridSearchHitScoresSchema>;
+export type HybridSearchHit = z.infer<typeof HybridSearchHitSchema>;
+export type HybridSearchResponse = z.infer<typeof HybridSearchResponseSchema>;
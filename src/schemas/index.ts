@@ -0,0 +1,108 @@
+export {
+    TenantIdSchema,
+    TenantSchema,
+    TenantRegistrySchema,
+    defaultTenant,
+    tenantIdsFromClaims,
+    authorizeTenant
+} from './tenant';
+export type { TenantId, Tenant, TenantRegistry } from './tenant';
+export { DocumentMetadataSchema } from './document-metadata';
+export type { DocumentMetadata } from './document-metadata';
+export { DocumentTombstoneSchema } from './document-tombstone';
+export type { DocumentTombstone } from './document-tombstone';
+export {
+    DocumentStageSchema,
+    DocumentStatusStateSchema,
+    DocumentStatusSchema,
+    STATUS_API_STAGES,
+    isPurgeComplete
+} from './document-status';
+export type { DocumentStage, DocumentStatusState, DocumentStatus } from './document-status';
+export {
+    PipelineStateSchema,
+    PipelineStageStatusSchema,
+    PipelineStatusSchema,
+    overallPipelineState
+} from './pipeline-status';
+export type { PipelineState, PipelineStageStatus, PipelineStatus } from './pipeline-status';
+export { RedrivePolicySchema, parseRedrivePolicy } from './work-queue';
+export type { RedrivePolicy } from './work-queue';
+export { ProcessedContentChunkSchema, ProcessedContentSchema } from './processed-content';
+export type { ProcessedContentChunk, ProcessedContent } from './processed-content';
+export {
+    EmbeddingModelDescriptorSchema,
+    VectorIndexSlotSchema,
+    isEmbeddingModelCompatible,
+    inactiveIndexSlot
+} from './embedding-model';
+export type { EmbeddingModelDescriptor, VectorIndexSlot } from './embedding-model';
+export { EmbeddedChunkSchema, EmbeddingsFileSchema } from './embeddings';
+export type { EmbeddedChunk, EmbeddingsFile } from './embeddings';
+export { VectorUpsertItemSchema, VectorUpsertRequestSchema } from './vector-upsert';
+export type { VectorUpsertItem, VectorUpsertRequest } from './vector-upsert';
+export { VectorMetadataSchema } from './vector-metadata';
+export type { VectorMetadata } from './vector-metadata';
+export { DocumentTermSchema } from './lexical-index';
+export type { DocumentTerm } from './lexical-index';
+export {
+    HybridFusionStrategySchema,
+    HybridSearchModeSchema,
+    HybridSearchRequestSchema,
+    HybridSearchHitScoresSchema,
+    HybridSearchHitSchema,
+    HybridSearchResponseSchema
+} from './hybrid-search';
+export type {
+    HybridFusionStrategy,
+    HybridSearchMode,
+    HybridSearchRequest,
+    HybridSearchHitScores,
+    HybridSearchHit,
+    HybridSearchResponse
+} from './hybrid-search';
+export { RerankRequestSchema, RerankedHitSchema, RerankResponseSchema } from './rerank';
+export type { RerankRequest, RerankedHit, RerankResponse } from './rerank';
+export {
+    GenerationRequestSchema,
+    GenerationSourceSchema,
+    GenerationResponseSchema,
+    FeedbackSchema
+} from './generation';
+export type {
+    GenerationRequest,
+    GenerationSource,
+    GenerationResponse,
+    Feedback
+} from './generation';
+export {
+    ConversationRoleSchema,
+    ConversationMessageSchema,
+    ConversationTtlPolicySchema,
+    ConversationSchema,
+    conversationPartitionKey,
+    conversationSortKey,
+    conversationExpiresAt
+} from './conversation';
+export type {
+    ConversationRole,
+    ConversationMessage,
+    Conversation,
+    ConversationTtlPolicy
+} from './conversation';
+export {
+    EvaluationMetricsSchema,
+    GoldenQuestionSchema,
+    EvaluationQuestionResultSchema,
+    EvaluationReportSchema,
+    evaluationRegressions
+} from './evaluation';
+export type {
+    EvaluationMetrics,
+    GoldenQuestion,
+    EvaluationQuestionResult,
+    EvaluationReport,
+    EvaluationRegression
+} from './evaluation';
+export { schemaCatalog, schemaCatalogEntries, catalogSchemaOf } from './catalog';
+export type { SchemaCatalogEntry } from './catalog';
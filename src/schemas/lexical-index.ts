@@ -0,0 +1,22 @@
+import {z} from 'zod';
+import {TenantIdSchema} from './tenant';
+
+/**
+ * Contract `LexicalIndexProducer.documentTermSchemaS3Url` is published from,
+ * the BM25 index entry of one chunk
+ */
+export const DocumentTermSchema = z.object({
+    tenantId: TenantIdSchema,
+    documentId: z.string(),
+    chunkId: z.string(),
+    /**
+     * Term → frequency in the chunk, after the tokenizer config was applied
+     */
+    terms: z.record(z.string(), z.number().int().positive()),
+    /**
+     * Chunk length in tokens, for BM25 length normalization
+     */
+    length: z.number().int().nonnegative()
+});
+
+export type DocumentTerm = z.infer<typeof DocumentTermSchema>;
@@ -0,0 +1,70 @@
+import {z} from 'zod';
+import {DocumentStageSchema, DocumentStatusStateSchema} from './document-status';
+
+/**
+ * Stage state, 'unknown' when the stage's status API could not be read
+ */
+export const PipelineStateSchema = z.enum([...DocumentStatusStateSchema.options, 'unknown']);
+
+/**
+ * One stage of a document's pipeline status
+ */
+export const PipelineStageStatusSchema = z.object({
+    stage: DocumentStageSchema,
+    state: PipelineStateSchema,
+    startedAt: z.string().optional(),
+    updatedAt: z.string().optional(),
+    error: z.string().optional(),
+    chunkCount: z.number().optional(),
+    embeddingCount: z.number().optional(),
+    vectorCount: z.number().optional()
+});
+
+/**
+ * Merged status of a document across the stages, in pipeline order
+ */
+export const PipelineStatusSchema = z.object({
+    documentId: z.string(),
+    state: PipelineStateSchema,
+    stages: z.array(PipelineStageStatusSchema),
+    /**
+     * Latest updatedAt of the stages
+     */
+    updatedAt: z.string().optional()
+});
+
+export type PipelineState = z.infer<typeof PipelineStateSchema>;
+export type PipelineStageStatus = z.infer<typeof PipelineStageStatusSchema>;
+export type PipelineStatus = z.infer<typeof PipelineStatusSchema>;
+
+/**
+ * Overall state of a document from its stage states:
+ * failed if any stage failed, purged once all are purged, deleted while a purge is underway,
+ * unknown otherwise while a stage couldn't be read, as it may sit anywhere between the started and unfinished ones,
+ * completed once all are completed, pending while none started, processing otherwise
+ */
+export function overallPipelineState(stages: Pick<PipelineStageStatus, 'state'>[]): PipelineState {
+    const states = stages.map(s => s.state);
+    if (states.length == 0) {
+        return 'unknown';
+    }
+    if (states.includes('failed')) {
+        return 'failed';
+    }
+    if (states.every(s => s == 'purged')) {
+        return 'purged';
+    }
+    if (states.some(s => s == 'deleted' || s == 'purged')) {
+        return 'deleted';
+    }
+    if (states.includes('unknown')) {
+        return 'unknown';
+    }
+    if (states.every(s => s == 'completed')) {
+        return 'completed';
+    }
+    if (states.every(s => s == 'pending')) {
+        return 'pending';
+    }
+    return 'processing';
+}
@@ -0,0 +1,33 @@
+import {z} from 'zod';
+import {TenantIdSchema} from './tenant';
+
+export const ProcessedContentChunkSchema = z.object({
+    chunkId: z.string(),
+    /**
+     * 0-based position of the chunk in the document
+     */
+    index: z.number().int().nonnegative(),
+    content: z.string(),
+    tokenCount: z.number().int().nonnegative().optional(),
+    startOffset: z.number().int().nonnegative().optional(),
+    endOffset: z.number().int().nonnegative().optional(),
+    metadata: z.record(z.string(), z.unknown()).optional()
+});
+
+/**
+ * Contract `ProcessedContentStorageProducer.processedContentSchemaS3Url` is published from,
+ * one JSON file per document in the processed content bucket
+ */
+export const ProcessedContentSchema = z.object({
+    documentId: z.string(),
+    tenantId: TenantIdSchema,
+    sourceS3Key: z.string(),
+    contentType: z.string(),
+    title: z.string().optional(),
+    chunks: z.array(ProcessedContentChunkSchema),
+    processedAt: z.string().datetime(),
+    processingTimeMs: z.number().nonnegative().optional()
+});
+
+export type ProcessedContentChunk = z.infer<typeof ProcessedContentChunkSchema>;
+export type ProcessedContent = z.infer<typeof ProcessedContentSchema>;
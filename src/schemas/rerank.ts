@@ -0,0 +1,31 @@
+import {z} from 'zod';
+import {TenantIdSchema} from './tenant';
+import {HybridSearchHitSchema} from './hybrid-search';
+
+/**
+ * Contract `RerankApiProducer.rerankRequestSchema` is published from,
+ * candidates are the hits of the retrieval search
+ */
+export const RerankRequestSchema = z.object({
+    tenantId: TenantIdSchema,
+    query: z.string().min(1),
+    candidates: z.array(HybridSearchHitSchema),
+    topN: z.number().int().positive()
+});
+
+export const RerankedHitSchema = HybridSearchHitSchema.extend({
+    rerankScore: z.number()
+});
+
+/**
+ * Contract `RerankApiProducer.rerankResponseSchema` is published from, hits ordered by rerankScore
+ */
+export const RerankResponseSchema = z.object({
+    hits: z.array(RerankedHitSchema),
+    modelId: z.string().optional(),
+    tookMs: z.number().nonnegative().optional()
+});
+
+export type RerankRequest = z.infer<typeof RerankRequestSchema>;
+export type RerankedHit = z.infer<typeof RerankedHitSchema>;
+export type RerankResponse = z.infer<typeof RerankResponseSchema>;
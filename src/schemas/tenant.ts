@@ -0,0 +1,70 @@
+import {z} from 'zod';
+
+/**
+ * Lowercase tenant id, also used in S3 prefixes and vector namespaces
+ */
+export const TenantIdSchema = z.string().regex(/^[a-z0-9][a-z0-9-]{1,62}$/);
+
+/**
+ * One item of the `TenantRegistryProducer.tenantRegistryTable`,
+ * the contract `TenantRegistryProducer.tenantRegistrySchemaS3Url` is published from
+ */
+export const TenantSchema = z.object({
+    tenantId: TenantIdSchema,
+    displayName: z.string(),
+    /**
+     * Prefix of the tenant's documents in the document bucket, e.g. tenants/team-a/
+     */
+    documentPrefix: z.string(),
+    /**
+     * Namespace of the tenant's vectors in the vector and lexical indexes
+     */
+    vectorNamespace: z.string()
+});
+
+/**
+ * Registry items a consumer loaded from the table, not a published contract
+ */
+export const TenantRegistrySchema = z.object({
+    tenants: z.array(TenantSchema)
+});
+
+export type TenantId = z.infer<typeof TenantIdSchema>;
+export type Tenant = z.infer<typeof TenantSchema>;
+export type TenantRegistry = z.infer<typeof TenantRegistrySchema>;
+
+/**
+ * Registry entry of a tenant laid out the default way
+ */
+export function defaultTenant(tenantId: TenantId, displayName: string = tenantId): Tenant {
+    return {tenantId, displayName, documentPrefix: `tenants/${tenantId}/`, vectorNamespace: tenantId};
+}
+
+/**
+ * Tenant ids of the caller, the claim holds an array or a comma separated string
+ */
+export function tenantIdsFromClaims(claims: Record<string, unknown>, claimName: string): TenantId[] {
+    const claim = claims[claimName];
+    const ids = Array.isArray(claim) ? claim : typeof claim == 'string' ? claim.split(',') : [];
+    return ids.map(id => String(id).trim()).filter(id => id.length > 0);
+}
+
+/**
+ * Registry entry of `tenantId` when the caller's claims grant it, throws otherwise.
+ * Retrieval calls this before every search so one tenant never sees another's documents.
+ */
+export function authorizeTenant(
+    registry: TenantRegistry,
+    claims: Record<string, unknown>,
+    claimName: string,
+    tenantId: TenantId
+): Tenant {
+    if (!tenantIdsFromClaims(claims, claimName).includes(tenantId)) {
+        throw new Error(`Caller is not a member of tenant '${tenantId}' (claim ${claimName})`);
+    }
+    const tenant = registry.tenants.find(t => t.tenantId == tenantId);
+    if (!tenant) {
+        throw new Error(`Tenant '${tenantId}' is not registered`);
+    }
+    return tenant;
+}
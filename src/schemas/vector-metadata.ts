@@ -0,0 +1,21 @@
+import {z} from 'zod';
+import {TenantIdSchema} from './tenant';
+import {VectorIndexSlotSchema} from './embedding-model';
+
+/**
+ * Contract `VectorStorageProducer.vectorMetadataSchemaS3Url` is published from,
+ * one object per stored vector in the metadata bucket, read by retrieval to enrich hits
+ */
+export const VectorMetadataSchema = z.object({
+    chunkId: z.string(),
+    documentId: z.string(),
+    tenantId: TenantIdSchema,
+    chunkIndex: z.number().int().nonnegative(),
+    modelVersion: z.string(),
+    indexSlot: VectorIndexSlotSchema,
+    title: z.string().optional(),
+    sourceS3Key: z.string().optional(),
+    storedAt: z.string().datetime()
+});
+
+export type VectorMetadata = z.infer<typeof VectorMetadataSchema>;
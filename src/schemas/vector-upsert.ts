@@ -0,0 +1,22 @@
+import {z} from 'zod';
+import {TenantIdSchema} from './tenant';
+import {EmbeddedChunkSchema} from './embeddings';
+
+/**
+ * The embedded chunks of the embedding files, unchanged
+ */
+export const VectorUpsertItemSchema = EmbeddedChunkSchema;
+
+/**
+ * Contract `VectorStorageProducer.upsertRequestSchemaS3Url` is published from,
+ * vectors are written to the namespace of the tenant
+ */
+export const VectorUpsertRequestSchema = z.object({
+    tenantId: TenantIdSchema,
+    documentId: z.string(),
+    modelVersion: z.string(),
+    vectors: z.array(VectorUpsertItemSchema)
+});
+
+export type VectorUpsertItem = z.infer<typeof VectorUpsertItemSchema>;
+export type VectorUpsertRequest = z.infer<typeof VectorUpsertRequestSchema>;
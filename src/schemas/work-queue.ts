@@ -0,0 +1,38 @@
+import {z} from 'zod';
+
+/**
+ * Contract `WorkQueueProducer.redrivePolicy` is published from, as JSON.
+ * Same shape on every stage so backpressure and DLQ replay are handled alike
+ */
+export const RedrivePolicySchema = z.object({
+    deadLetterTargetArn: z.string().startsWith('arn:'),
+    /**
+     * Receives before a message moves to the DLQ
+     */
+    maxReceiveCount: z.number().int().min(1).max(1000),
+    /**
+     * At least the consumer's processing timeout, or messages are received twice
+     */
+    visibilityTimeoutSeconds: z.number().int().min(0).max(43200),
+    /**
+     * Messages per consumer invocation
+     */
+    batchSize: z.number().int().min(1).max(10000).optional(),
+    /**
+     * Upper bound of concurrent consumer invocations, the backpressure limit towards the next stage
+     */
+    maxConcurrency: z.number().int().min(2).max(1000).optional(),
+    /**
+     * How long DLQ messages are kept for replay
+     */
+    dlqRetentionSeconds: z.number().int().min(60).max(1209600).optional()
+});
+
+export type RedrivePolicy = z.infer<typeof RedrivePolicySchema>;
+
+/**
+ * Redrive policy from the enver_config value of a `redrivePolicy` consumer
+ */
+export function parseRedrivePolicy(value: string): RedrivePolicy {
+    return RedrivePolicySchema.parse(JSON.parse(value));
+}
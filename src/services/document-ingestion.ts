@@ -1,34 +1,52 @@
 import {
-    OdmdBuild,
     OdmdEnverCdk,
     SRC_Rev_REF,
     OdmdCrossRefProducer,
     OdmdCrossRefConsumer,
     OdmdEnverUserAuth
 } from '@ondemandenv/contracts-lib-base';
+import {RagServiceBuild} from "./rag-service-build";
 import {RagContracts} from "../rag-contracts";
 import {RagUserAuthEnver} from "./user-auth";
 import {RagDocumentProcessingEnver} from "./document-processing";
 import {RagEmbeddingEnver} from "./embedding";
 import {RagVectorStorageEnver} from "./vector-storage";
+import {WorkQueueProducer} from "./work-queue";
+import {ProducerBucketObjects, ProducerChildren, producerChildren, producerChildrenProps, ProducerChildSpecs} from "../utils/producer-children";
+import {DocumentMetadataSchema} from "../schemas/document-metadata";
+import {DocumentTombstoneSchema} from "../schemas/document-tombstone";
+import {TenantSchema} from "../schemas/tenant";
+
+const DOCUMENT_STORAGE_CHILDREN = {
+    docMetadataSchemaS3Url: {pathPart: 'schema', s3artifact: true, schema: DocumentMetadataSchema},
+    quarantineBucket: {pathPart: 'quarantine', bucket: true}
+} satisfies ProducerChildSpecs;
+
+const DOCUMENT_STORAGE_OBJECTS: ProducerBucketObjects = {
+    channel: 'documents',
+    description: 'Validated documents as uploaded, under the prefix of their tenant',
+    contentType: 'application/octet-stream',
+    metadata: 'docMetadataSchemaS3Url'
+};
 
 /**
  S3 bucket for document storage with status metadata
  */
 export class DocumentStorageResourceProducer extends OdmdCrossRefProducer<RagDocumentIngestionEnver> {
+    readonly named: ProducerChildren<typeof DOCUMENT_STORAGE_CHILDREN, RagDocumentIngestionEnver>;
+
     constructor(owner: RagDocumentIngestionEnver) {
         super(owner, 'store', {
-            children: [
-                {pathPart: 'schema', s3artifact: true},
-                {pathPart: 'quarantine'}
-            ]
+            children: producerChildrenProps(DOCUMENT_STORAGE_CHILDREN)
         });
+        this.named = producerChildren(this, DOCUMENT_STORAGE_CHILDREN, {objects: DOCUMENT_STORAGE_OBJECTS});
     }
     /**
-     * S3 URL to the JSON schema for
+     * S3 URL to the JSON schema for document metadata, published from DocumentMetadataSchema.
+     * Documents are stored under the document prefix of their tenant.
      */
     public get docMetadataSchemaS3Url() {
-        return this.children![0]!
+        return this.named.docMetadataSchemaS3Url
     }
 
     /**
@@ -36,9 +54,80 @@ export class DocumentStorageResourceProducer extends OdmdCrossRefProducer<RagDoc
      * Downstream services may need read access for comprehensive processing
      */
     public get quarantineBucket() {
-        return this.children![1]!
+        return this.named.quarantineBucket
+    }
+
+}
+
+const DOCUMENT_DELETION_EVENTS_CHILDREN = {
+    tombstoneSchemaS3Url: {pathPart: 'tombstone-schema', s3artifact: true, schema: DocumentTombstoneSchema}
+} satisfies ProducerChildSpecs;
+
+/**
+ EventBridge channel for document deletion events
+ A tombstone is published when a document is deleted or replaced,
+ downstream stages drop its chunks, embeddings and vectors and report it as deleted, then purged
+ */
+export class DocumentDeletionEventsProducer extends OdmdCrossRefProducer<RagDocumentIngestionEnver> {
+    readonly named: ProducerChildren<typeof DOCUMENT_DELETION_EVENTS_CHILDREN, RagDocumentIngestionEnver>;
+
+    constructor(owner: RagDocumentIngestionEnver) {
+        super(owner, 'deletion-events', {
+            children: producerChildrenProps(DOCUMENT_DELETION_EVENTS_CHILDREN)
+        });
+        this.named = producerChildren(this, DOCUMENT_DELETION_EVENTS_CHILDREN);
     }
 
+    /**
+     * S3 URL to the JSON schema for tombstone events, published from DocumentTombstoneSchema.
+     * Versioned by Git SHA.
+     */
+    public get tombstoneSchemaS3Url() {
+        return this.named.tombstoneSchemaS3Url
+    }
+}
+
+const TENANT_REGISTRY_CHILDREN = {
+    tenantRegistryTable: {pathPart: 'registry-table'},
+    tenantClaimName: {pathPart: 'tenant-claim'},
+    tenantRegistrySchemaS3Url: {pathPart: 'registry-schema', s3artifact: true, schema: TenantSchema}
+} satisfies ProducerChildSpecs;
+
+/**
+ Tenants of the lane with their document prefix and vector namespace, see TenantSchema
+ Documents, vectors and searches of one tenant are never visible to another
+ */
+export class TenantRegistryProducer extends OdmdCrossRefProducer<RagDocumentIngestionEnver> {
+    readonly named: ProducerChildren<typeof TENANT_REGISTRY_CHILDREN, RagDocumentIngestionEnver>;
+
+    constructor(owner: RagDocumentIngestionEnver) {
+        super(owner, 'tenant-registry', {
+            children: producerChildrenProps(TENANT_REGISTRY_CHILDREN)
+        });
+        this.named = producerChildren(this, TENANT_REGISTRY_CHILDREN);
+    }
+
+    /**
+     * DynamoDB table holding one TenantSchema item per tenant
+     */
+    public get tenantRegistryTable() {
+        return this.named.tenantRegistryTable
+    }
+
+    /**
+     * Auth token claim carrying the caller's tenant ids, e.g. custom:tenant_ids
+     */
+    public get tenantClaimName() {
+        return this.named.tenantClaimName
+    }
+
+    /**
+     * S3 URL to the JSON schema of one tenant registry item (TenantSchema).
+     * Versioned by Git SHA.
+     */
+    public get tenantRegistrySchemaS3Url() {
+        return this.named.tenantRegistrySchemaS3Url
+    }
 }
 
 /**
@@ -49,6 +138,9 @@ export class RagDocumentIngestionEnver extends OdmdEnverCdk {
         super(owner, targetAWSAccountID, targetAWSRegion, targetRevision);
 
         this.documentStorageResources = new DocumentStorageResourceProducer(this);
+        this.deletionEvents = new DocumentDeletionEventsProducer(this);
+        this.tenantRegistry = new TenantRegistryProducer(this);
+        this.documentQueue = owner.contracts.workQueues ? new WorkQueueProducer(this, 'document-queue') : undefined;
 
         this.authCallbackUrl = new OdmdCrossRefProducer(this, 'auth-callback-url');
         this.logoutUrl = new OdmdCrossRefProducer(this, 'logout-url');
@@ -56,6 +148,21 @@ export class RagDocumentIngestionEnver extends OdmdEnverCdk {
 
     readonly documentStorageResources: DocumentStorageResourceProducer;
 
+    /**
+     * Deletion/tombstone channel consumed by processing, embedding and vector storage
+     */
+    readonly deletionEvents: DocumentDeletionEventsProducer;
+
+    /**
+     * Tenant registry consumed by vector storage and knowledge retrieval
+     */
+    readonly tenantRegistry: TenantRegistryProducer;
+
+    /**
+     * Work queue of new documents consumed by processing, set with `workQueues: true`
+     */
+    readonly documentQueue: WorkQueueProducer<RagDocumentIngestionEnver> | undefined;
+
     readonly authCallbackUrl: OdmdCrossRefProducer<RagDocumentIngestionEnver>;
     readonly logoutUrl: OdmdCrossRefProducer<RagDocumentIngestionEnver>;
 
@@ -74,32 +181,35 @@ export class RagDocumentIngestionEnver extends OdmdEnverCdk {
 
         this.authProviderName = new OdmdCrossRefConsumer(this, userAuthEnver.idProviderName.node.id, userAuthEnver.idProviderName);
 
-        const processingEnver = ragContracts.ragDocumentProcessingBuild.envers.find(e =>
-            e.ingestionEnver == this
-        );
-        if (processingEnver)
-            this.processingStatusApiEndpoint = new OdmdCrossRefConsumer(
-                this, 'processing-status-api',
-                processingEnver.statusApi.statusApiEndpoint
-            );
-
-        const embeddingEnver = ragContracts.ragEmbeddingBuild.envers.find(e =>
-            e.processedContentSubscription.producer.owner.ingestionEnver == this
+        const lanes = ragContracts.laneResolver;
+
+        // the stages consume ingestion's buckets, their status APIs stay on defaults until they are deployed
+        const processingEnver = lanes.peer(this, ragContracts.ragDocumentProcessingBuild);
+        this.processingStatusApiEndpoint = new OdmdCrossRefConsumer(
+            this, 'processing-status-api',
+            processingEnver.statusApi.statusApiEndpoint, {
+                defaultIfAbsent: 'default-processing-status-api',
+                trigger: 'no'
+            }
         );
-        if (embeddingEnver)
-            this.embeddingStatusApiEndpoint = new OdmdCrossRefConsumer(
-                this, 'embedding-status-api',
-                embeddingEnver.statusApi
-            );
-        const vectorStorageEnver = ragContracts.ragVectorStorageBuild.envers.find(e =>
-            e.embeddingSubscription.producer.owner.processedContentSubscription.producer.owner.ingestionEnver == this
+
+        const embeddingEnver = lanes.peer(this, ragContracts.ragEmbeddingBuild);
+        this.embeddingStatusApiEndpoint = new OdmdCrossRefConsumer(
+            this, 'embedding-status-api',
+            embeddingEnver.statusApi, {
+                defaultIfAbsent: 'default-embedding-status-api',
+                trigger: 'no'
+            }
         );
 
-        if (vectorStorageEnver)
-            this.vectorStorageStatusApiEndpoint = new OdmdCrossRefConsumer(
-                this, 'vector-storage-status-api',
-                vectorStorageEnver.statusApi
-            );
+        const vectorStorageEnver = lanes.peer(this, ragContracts.ragVectorStorageBuild);
+        this.vectorStorageStatusApiEndpoint = new OdmdCrossRefConsumer(
+            this, 'vector-storage-status-api',
+            vectorStorageEnver.statusApi, {
+                defaultIfAbsent: 'default-vector-storage-status-api',
+                trigger: 'no'
+            }
+        );
     }
 
 
@@ -112,44 +222,13 @@ export class RagDocumentIngestionEnver extends OdmdEnverCdk {
 /**
  * RAG Document Ingestion Service Build
  */
-export class RagDocumentIngestionBuild extends OdmdBuild<OdmdEnverCdk> {
-    private _envers!: Array<RagDocumentIngestionEnver>;
-    get envers(): Array<RagDocumentIngestionEnver> {
-        return this._envers;
-    }
-
-    private _dev!: RagDocumentIngestionEnver;
-    get dev(): RagDocumentIngestionEnver {
-        return this._dev;
-    }
-
-    private _prod!: RagDocumentIngestionEnver;
-    get prod(): RagDocumentIngestionEnver {
-        return this._prod;
-    }
-
-    ownerEmail?: string | undefined;
-
+export class RagDocumentIngestionBuild extends RagServiceBuild<RagDocumentIngestionEnver> {
     constructor(scope: RagContracts) {
         super(scope, 'ragIngest', scope.githubRepos.ragDocumentIngestion);
     }
 
-    protected initializeEnvers(): void {
-        this._dev = new RagDocumentIngestionEnver(this,
-            this.contracts.accounts.workspace1, 'us-east-2',
-            new SRC_Rev_REF('b', 'dev')
-        );
-
-        this._prod = new RagDocumentIngestionEnver(this,
-            this.contracts.accounts.workspace2, 'us-east-2',
-            new SRC_Rev_REF('b', 'main')
-        );
-
-        this._envers = [this._dev, this._prod];
-    }
-
-    get contracts(): RagContracts {
-        return super.contracts as RagContracts;
+    protected createEnver(laneName: string, targetAWSAccountID: string, targetAWSRegion: string, targetRevision: SRC_Rev_REF): RagDocumentIngestionEnver {
+        return new RagDocumentIngestionEnver(this, targetAWSAccountID, targetAWSRegion, targetRevision);
     }
 
     wireConsuming() {
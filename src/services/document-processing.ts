@@ -1,6 +1,28 @@
-import { OdmdBuild, OdmdEnverCdk, SRC_Rev_REF, OdmdCrossRefConsumer, OdmdCrossRefProducer } from "@ondemandenv/contracts-lib-base";
+import { OdmdEnverCdk, SRC_Rev_REF, OdmdCrossRefConsumer, OdmdCrossRefProducer } from "@ondemandenv/contracts-lib-base";
+import { RagServiceBuild } from "./rag-service-build";
 import type { RagContracts } from "../rag-contracts";
 import { RagDocumentIngestionEnver } from "./document-ingestion";
+import { WorkQueueProducer } from "./work-queue";
+import { ProducerChildren, producerChildren, producerChildrenProps, ProducerChildSpecs } from "../utils/producer-children";
+import { SchemaCrossRefConsumer } from "../utils/schema-cross-refs";
+import { ProcessedContentSchema } from "../schemas/processed-content";
+import { DocumentStatusSchema } from "../schemas/document-status";
+import { DocumentMetadataSchema } from "../schemas/document-metadata";
+import { DocumentTombstoneSchema } from "../schemas/document-tombstone";
+
+const PROCESSED_CONTENT_STORAGE_CHILDREN = {
+    processedContentBucket: {
+        pathPart: 'processed-content-bucket',
+        objects: {
+            channel: 'processedContent',
+            description: 'Processed content, one JSON file per document',
+            contentType: 'application/json',
+            payload: 'processedContentSchemaS3Url',
+            statusMetadata: ['processing-status', 'placeholder', 'document-id']
+        }
+    },
+    processedContentSchemaS3Url: {pathPart: 'processed-content-schema-s3-url', s3artifact: true, schema: ProcessedContentSchema}
+} satisfies ProducerChildSpecs;
 
 /**
  * Processed Content Storage Resources (S3 Buckets)
@@ -8,13 +30,13 @@ import { RagDocumentIngestionEnver } from "./document-ingestion";
  * Status tracking is now embedded in object metadata instead of separate bucket
  */
 export class ProcessedContentStorageProducer extends OdmdCrossRefProducer<RagDocumentProcessingEnver> {
+    readonly named: ProducerChildren<typeof PROCESSED_CONTENT_STORAGE_CHILDREN, RagDocumentProcessingEnver>;
+
     constructor(owner: RagDocumentProcessingEnver, id: string) {
         super(owner, id, {
-            children: [
-                {pathPart: 'processed-content-bucket'},
-                {pathPart: 'processed-content-schema-s3-url', s3artifact: true}
-            ]
+            children: producerChildrenProps(PROCESSED_CONTENT_STORAGE_CHILDREN)
         });
+        this.named = producerChildren(this, PROCESSED_CONTENT_STORAGE_CHILDREN);
     }
 
     /**
@@ -24,7 +46,7 @@ export class ProcessedContentStorageProducer extends OdmdCrossRefProducer<RagDoc
      * Consumed by embedding service via S3 event notifications
      */
     public get processedContentBucket() {
-        return this.children![0]!
+        return this.named.processedContentBucket
     }
 
     /**
@@ -33,23 +55,35 @@ export class ProcessedContentStorageProducer extends OdmdCrossRefProducer<RagDoc
      * e.g., s3://bucket/schemas/processed-content/processed-content-abcdef123.json
      */
     public get processedContentSchemaS3Url() {
-        return this.children![1]!
+        return this.named.processedContentSchemaS3Url
     }
 }
 
+const PROCESSING_STATUS_API_CHILDREN = {
+    statusApiEndpoint: {
+        pathPart: 'status-api-endpoint',
+        routes: [{
+            method: 'get', path: '/status/{docId}', operationId: 'getProcessingStatus',
+            summary: 'Processing status of a document, from the metadata of its processed content',
+            response: {component: 'DocumentStatus', child: 'statusResponseSchema'}
+        }]
+    },
+    statusResponseSchema: {pathPart: 'status-response-schema', schema: DocumentStatusSchema}
+} satisfies ProducerChildSpecs;
+
 /**
  * Document Processing Status API Producer
  * Provides HTTP API endpoints for document processing status tracking
  * Status is retrieved from S3 object metadata instead of separate status bucket
  */
 export class DocumentProcessingStatusApiProducer extends OdmdCrossRefProducer<RagDocumentProcessingEnver> {
+    readonly named: ProducerChildren<typeof PROCESSING_STATUS_API_CHILDREN, RagDocumentProcessingEnver>;
+
     constructor(owner: RagDocumentProcessingEnver, id: string) {
         super(owner, id, {
-            children: [
-                {pathPart: 'status-api-endpoint'},
-                {pathPart: 'status-response-schema'}
-            ]
+            children: producerChildrenProps(PROCESSING_STATUS_API_CHILDREN)
         });
+        this.named = producerChildren(this, PROCESSING_STATUS_API_CHILDREN);
     }
 
     /**
@@ -58,15 +92,16 @@ export class DocumentProcessingStatusApiProducer extends OdmdCrossRefProducer<Ra
      * Status retrieved from S3 object metadata
      */
     public get statusApiEndpoint() {
-        return this.children![0]!
+        return this.named.statusApiEndpoint
     }
 
     /**
      * Schema contract for status response payloads
-     * Defines the data structure for processing status responses from S3 metadata
+     * Defines the data structure for processing status responses from S3 metadata,
+     * published from DocumentStatusSchema including the deleted and purged states
      */
     public get statusResponseSchema() {
-        return this.children![1]!
+        return this.named.statusResponseSchema
     }
 }
 
@@ -82,25 +117,60 @@ export class RagDocumentProcessingEnver extends OdmdEnverCdk {
         
         this.processedContentStorage = new ProcessedContentStorageProducer(this, 'processed-content-storage');
         this.statusApi = new DocumentProcessingStatusApiProducer(this, 'status-api');
+        this.processedContentQueue = owner.contracts.workQueues ? new WorkQueueProducer(this, 'processed-content-queue') : undefined;
     }
 
     documentBucket!: OdmdCrossRefConsumer<this, RagDocumentIngestionEnver>;
-    documentMetadataSchemaS3Url!: OdmdCrossRefConsumer<this, RagDocumentIngestionEnver>;
+    documentMetadataSchemaS3Url!: SchemaCrossRefConsumer<this, RagDocumentIngestionEnver, typeof DocumentMetadataSchema>;
+    deletionEvents!: OdmdCrossRefConsumer<this, RagDocumentIngestionEnver>;
+    tombstoneSchemaS3Url!: SchemaCrossRefConsumer<this, RagDocumentIngestionEnver, typeof DocumentTombstoneSchema>;
+
+    /**
+     * Work queue of the ingestion enver upstream, set with `workQueues: true`
+     * New documents are received from the queue instead of S3 notifications
+     */
+    workQueue?: OdmdCrossRefConsumer<this, RagDocumentIngestionEnver>;
+    workQueueArn?: OdmdCrossRefConsumer<this, RagDocumentIngestionEnver>;
+    deadLetterQueueArn?: OdmdCrossRefConsumer<this, RagDocumentIngestionEnver>;
+    redrivePolicy?: OdmdCrossRefConsumer<this, RagDocumentIngestionEnver>;
 
     readonly processedContentStorage: ProcessedContentStorageProducer;
     
     readonly statusApi: DocumentProcessingStatusApiProducer;
 
+    /**
+     * Work queue of processed content consumed by embedding, set with `workQueues: true`
+     */
+    readonly processedContentQueue: WorkQueueProducer<RagDocumentProcessingEnver> | undefined;
+
     wireConsuming() {
         this.documentBucket = new OdmdCrossRefConsumer(
             this, 'doc-bucket',
             this.ingestionEnver.documentStorageResources
         );
 
-        this.documentMetadataSchemaS3Url = new OdmdCrossRefConsumer(
+        this.documentMetadataSchemaS3Url = new SchemaCrossRefConsumer(
             this, 'doc-metadata-schema',
             this.ingestionEnver.documentStorageResources.docMetadataSchemaS3Url,
         );
+
+        this.deletionEvents = new OdmdCrossRefConsumer(
+            this, 'deletion-events',
+            this.ingestionEnver.deletionEvents
+        );
+
+        this.tombstoneSchemaS3Url = new SchemaCrossRefConsumer(
+            this, 'tombstone-schema',
+            this.ingestionEnver.deletionEvents.tombstoneSchemaS3Url
+        );
+
+        const documentQueue = this.ingestionEnver.documentQueue;
+        if (documentQueue) {
+            this.workQueue = new OdmdCrossRefConsumer(this, 'work-queue', documentQueue);
+            this.workQueueArn = new OdmdCrossRefConsumer(this, 'work-queue-arn', documentQueue.workQueueArn);
+            this.deadLetterQueueArn = new OdmdCrossRefConsumer(this, 'dlq-arn', documentQueue.deadLetterQueueArn);
+            this.redrivePolicy = new OdmdCrossRefConsumer(this, 'redrive-policy', documentQueue.redrivePolicy);
+        }
     }
 
     getRevStackNames(): Array<string> {
@@ -112,49 +182,16 @@ export class RagDocumentProcessingEnver extends OdmdEnverCdk {
 /**
  * RAG Document Processing Service Build
  */
-export class RagDocumentProcessingBuild extends OdmdBuild<OdmdEnverCdk> {
-    private _envers!: Array<RagDocumentProcessingEnver>;
-    get envers(): Array<RagDocumentProcessingEnver> {
-        return this._envers;
-    }
-
-    private _dev!: RagDocumentProcessingEnver;
-    get dev(): RagDocumentProcessingEnver {
-        return this._dev;
-    }
-
-    private _prod!: RagDocumentProcessingEnver;
-    get prod(): RagDocumentProcessingEnver {
-        return this._prod;
-    }
-
-    ownerEmail?: string | undefined;
-
+export class RagDocumentProcessingBuild extends RagServiceBuild<RagDocumentProcessingEnver> {
     constructor(scope: RagContracts) {
         super(scope, 'ragProc', scope.githubRepos.ragDocumentProcessing);
     }
 
-    protected initializeEnvers(): void {
-        const ingestionDev = this.contracts.ragDocumentIngestionBuild.dev;
-        const ingestionProd = this.contracts.ragDocumentIngestionBuild.prod;
-
-        this._dev = new RagDocumentProcessingEnver(this,
-            this.contracts.accounts.workspace1, 'us-east-2',
-            new SRC_Rev_REF('b', 'dev'),
-            ingestionDev
-        );
-
-        this._prod = new RagDocumentProcessingEnver(this,
-            this.contracts.accounts.workspace2, 'us-east-2',
-            new SRC_Rev_REF('b', 'main'),
-            ingestionProd
+    protected createEnver(laneName: string, targetAWSAccountID: string, targetAWSRegion: string, targetRevision: SRC_Rev_REF): RagDocumentProcessingEnver {
+        return new RagDocumentProcessingEnver(this,
+            targetAWSAccountID, targetAWSRegion, targetRevision,
+            this.contracts.ragDocumentIngestionBuild.getEnver(laneName)
         );
-
-        this._envers = [this._dev, this._prod];
-    }
-
-    get contracts(): RagContracts {
-        return super.contracts as RagContracts;
     }
 
     wireConsuming() {
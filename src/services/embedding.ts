@@ -1,13 +1,33 @@
 import {
-    OdmdBuild,
     OdmdEnverCdk,
     SRC_Rev_REF,
     OdmdCrossRefConsumer,
     OdmdCrossRefProducer, OdmdEnverUserAuth
 } from "@ondemandenv/contracts-lib-base";
+import {RagServiceBuild} from "./rag-service-build";
 import type {RagContracts} from "../rag-contracts";
 import {RagUserAuthEnver} from "./user-auth";
 import {RagDocumentProcessingEnver} from "./document-processing";
+import {RagDocumentIngestionEnver} from "./document-ingestion";
+import {WorkQueueProducer} from "./work-queue";
+import {ProducerBucketObjects, ProducerChildren, producerChildren, producerChildrenProps, ProducerChildSpecs, ProducerRoute} from "../utils/producer-children";
+import {SchemaCrossRefConsumer} from "../utils/schema-cross-refs";
+import {EmbeddingsFileSchema} from "../schemas/embeddings";
+import {DocumentStatusSchema} from "../schemas/document-status";
+import {ProcessedContentSchema} from "../schemas/processed-content";
+import {DocumentTombstoneSchema} from "../schemas/document-tombstone";
+
+const EMBEDDING_STORAGE_CHILDREN = {
+    embeddingStatusSchemaS3Url: {pathPart: 'schema', s3artifact: true, schema: EmbeddingsFileSchema}
+} satisfies ProducerChildSpecs;
+
+const EMBEDDING_STORAGE_OBJECTS: ProducerBucketObjects = {
+    channel: 'embeddings',
+    description: 'Embeddings of the chunks of a document',
+    contentType: 'application/json',
+    payload: 'embeddingStatusSchemaS3Url',
+    statusMetadata: ['processing-status', 'placeholder', 'document-id', 'chunk-id']
+};
 
 /**
  S3 bucket for embedding files with status metadata
@@ -16,43 +36,106 @@ import {RagDocumentProcessingEnver} from "./document-processing";
  Consumed by vector storage service via S3 event notifications
  */
 export class EmbeddingStorageProducer extends OdmdCrossRefProducer<RagEmbeddingEnver> {
+    readonly named: ProducerChildren<typeof EMBEDDING_STORAGE_CHILDREN, RagEmbeddingEnver>;
+
     constructor(owner: RagEmbeddingEnver) {
         super(owner, 'store', {
-            children: [
-                {pathPart: 'schema', s3artifact: true}
-            ]
+            children: producerChildrenProps(EMBEDDING_STORAGE_CHILDREN)
         });
+        this.named = producerChildren(this, EMBEDDING_STORAGE_CHILDREN, {objects: EMBEDDING_STORAGE_OBJECTS});
     }
 
     /**
-     * S3 URL to the JSON schema for embedding status.
-     * Versioned by Git SHA.
+     * S3 URL to the JSON schema of the embedding files, see EmbeddingsFileSchema.
+     * Their status is in object metadata. Versioned by Git SHA.
      */
     public get embeddingStatusSchemaS3Url() {
-        return this.children![0]!
+        return this.named.embeddingStatusSchemaS3Url
     }
 }
 
+const EMBEDDING_MODEL_CHILDREN = {
+    modelId: {pathPart: 'model-id'},
+    dimension: {pathPart: 'dimension'},
+    normalization: {pathPart: 'normalization'},
+    modelVersion: {pathPart: 'version'}
+} satisfies ProducerChildSpecs;
+
+/**
+ Descriptor of the model that produced the embeddings, see EmbeddingModelDescriptorSchema
+ Vectors of different descriptors must never share an index
+ */
+export class EmbeddingModelDescriptorProducer extends OdmdCrossRefProducer<RagEmbeddingEnver> {
+    readonly named: ProducerChildren<typeof EMBEDDING_MODEL_CHILDREN, RagEmbeddingEnver>;
+
+    constructor(owner: RagEmbeddingEnver) {
+        super(owner, 'embedding-model', {
+            children: producerChildrenProps(EMBEDDING_MODEL_CHILDREN)
+        });
+        this.named = producerChildren(this, EMBEDDING_MODEL_CHILDREN);
+    }
+
+    /**
+     * Model id, e.g. amazon.titan-embed-text-v2:0
+     */
+    public get modelId() {
+        return this.named.modelId
+    }
+
+    /**
+     * Vector dimension, e.g. 1024
+     */
+    public get dimension() {
+        return this.named.dimension
+    }
+
+    /**
+     * Vector normalization: none, l2
+     */
+    public get normalization() {
+        return this.named.normalization
+    }
+
+    /**
+     * Descriptor version, bumped on every model change and recorded on the index built from it
+     */
+    public get modelVersion() {
+        return this.named.modelVersion
+    }
+}
+
+const EMBEDDING_STATUS_API_CHILDREN = {
+    statusResponseSchema: {pathPart: 'schema', schema: DocumentStatusSchema}
+} satisfies ProducerChildSpecs;
+
+const EMBEDDING_STATUS_API_ROUTES: ProducerRoute[] = [{
+    method: 'get', path: '/status/{docId}', operationId: 'getEmbeddingStatus',
+    summary: 'Embedding status of a document',
+    response: {component: 'DocumentStatus', child: 'statusResponseSchema'}
+}];
+
 /**
  HTTP API Gateway endpoint for embedding status
  Pattern: https://{enverId}.ragEmbedding.{domain}/status/{docId}
  Status retrieved from S3 object metadata
  */
 export class EmbeddingStatusApiProducer extends OdmdCrossRefProducer<RagEmbeddingEnver> {
+    readonly named: ProducerChildren<typeof EMBEDDING_STATUS_API_CHILDREN, RagEmbeddingEnver>;
+
     constructor(owner: RagEmbeddingEnver) {
         super(owner, 'status-api', {
-            children: [
-                {pathPart: 'schema'}
-            ]
+            children: producerChildrenProps(EMBEDDING_STATUS_API_CHILDREN)
         });
+        this.named = producerChildren(this, EMBEDDING_STATUS_API_CHILDREN, {routes: EMBEDDING_STATUS_API_ROUTES});
     }
 
     /**
      * Schema contract for status response payloads
-     * Defines the data structure for embedding status responses from S3 metadata
+     * Defines the data structure for embedding status responses from S3 metadata,
+     * published from DocumentStatusSchema including the deleted and purged states
      */
     public get statusResponseSchema() {
-        return this.children![0]!
+        return this.named.statusResponseSchema
     }
 }
 
@@ -70,7 +153,23 @@ export class RagEmbeddingEnver extends OdmdEnverCdk {
      * S3 URL subscription to the processed content schema
      * Used at runtime to validate incoming data against the producer's contract
      */
-    readonly processedContentSchemaS3Url: OdmdCrossRefConsumer<RagEmbeddingEnver, RagDocumentProcessingEnver>;
+    readonly processedContentSchemaS3Url: SchemaCrossRefConsumer<RagEmbeddingEnver, RagDocumentProcessingEnver, typeof ProcessedContentSchema>;
+
+    /**
+     * Deletion events of the ingestion enver upstream
+     * Embeddings of deleted or replaced documents are dropped on each tombstone
+     */
+    readonly deletionEvents: OdmdCrossRefConsumer<RagEmbeddingEnver, RagDocumentIngestionEnver>;
+    readonly tombstoneSchemaS3Url: SchemaCrossRefConsumer<RagEmbeddingEnver, RagDocumentIngestionEnver, typeof DocumentTombstoneSchema>;
+
+    /**
+     * Work queue of the processing enver upstream, set with `workQueues: true`
+     * Processed content is received from the queue instead of S3 notifications
+     */
+    readonly workQueue?: OdmdCrossRefConsumer<RagEmbeddingEnver, RagDocumentProcessingEnver>;
+    readonly workQueueArn?: OdmdCrossRefConsumer<RagEmbeddingEnver, RagDocumentProcessingEnver>;
+    readonly deadLetterQueueArn?: OdmdCrossRefConsumer<RagEmbeddingEnver, RagDocumentProcessingEnver>;
+    readonly redrivePolicy?: OdmdCrossRefConsumer<RagEmbeddingEnver, RagDocumentProcessingEnver>;
 
     readonly authProviderClientId: OdmdCrossRefConsumer<this, OdmdEnverUserAuth>;
     readonly authProviderName: OdmdCrossRefConsumer<this, OdmdEnverUserAuth>;
@@ -78,7 +177,17 @@ export class RagEmbeddingEnver extends OdmdEnverCdk {
     constructor(owner: RagEmbeddingBuild, targetAWSAccountID: string, targetAWSRegion: string, targetRevision: SRC_Rev_REF, documentProcessingEnver: RagDocumentProcessingEnver) {
         super(owner, targetAWSAccountID, targetAWSRegion, targetRevision);
         this.processedContentSubscription = new OdmdCrossRefConsumer(this, 'processedContentSubscription', documentProcessingEnver.processedContentStorage.processedContentBucket);
-        this.processedContentSchemaS3Url = new OdmdCrossRefConsumer(this, 'processedContentSchemaS3Url', documentProcessingEnver.processedContentStorage.processedContentSchemaS3Url);
+        this.processedContentSchemaS3Url = new SchemaCrossRefConsumer(this, 'processedContentSchemaS3Url', documentProcessingEnver.processedContentStorage.processedContentSchemaS3Url);
+        this.deletionEvents = new OdmdCrossRefConsumer(this, 'deletionEvents', documentProcessingEnver.ingestionEnver.deletionEvents);
+        this.tombstoneSchemaS3Url = new SchemaCrossRefConsumer(this, 'tombstoneSchemaS3Url', documentProcessingEnver.ingestionEnver.deletionEvents.tombstoneSchemaS3Url);
+
+        const processedContentQueue = documentProcessingEnver.processedContentQueue;
+        if (processedContentQueue) {
+            this.workQueue = new OdmdCrossRefConsumer(this, 'workQueue', processedContentQueue);
+            this.workQueueArn = new OdmdCrossRefConsumer(this, 'workQueueArn', processedContentQueue.workQueueArn);
+            this.deadLetterQueueArn = new OdmdCrossRefConsumer(this, 'deadLetterQueueArn', processedContentQueue.deadLetterQueueArn);
+            this.redrivePolicy = new OdmdCrossRefConsumer(this, 'redrivePolicy', processedContentQueue.redrivePolicy);
+        }
 
         const userAuthEnver = owner.contracts.userAuth!.envers[0] as RagUserAuthEnver
         this.authProviderClientId = new OdmdCrossRefConsumer(this, userAuthEnver.idProviderClientId.node.id, userAuthEnver.idProviderClientId);
@@ -86,7 +195,9 @@ export class RagEmbeddingEnver extends OdmdEnverCdk {
         this.authProviderName = new OdmdCrossRefConsumer(this, userAuthEnver.idProviderName.node.id, userAuthEnver.idProviderName);
 
         this.embeddingStorage = new EmbeddingStorageProducer(this);
+        this.embeddingModel = new EmbeddingModelDescriptorProducer(this);
         this.statusApi = new EmbeddingStatusApiProducer(this);
+        this.embeddingQueue = owner.contracts.workQueues ? new WorkQueueProducer(this, 'embedding-queue') : undefined;
     }
 
     /**
@@ -96,58 +207,36 @@ export class RagEmbeddingEnver extends OdmdEnverCdk {
      */
     readonly embeddingStorage: EmbeddingStorageProducer;
 
+    /**
+     * Embedding model descriptor producer
+     * Tells vector storage which model and dimension produced the embeddings
+     */
+    readonly embeddingModel: EmbeddingModelDescriptorProducer;
+
     /**
      * Status API producer for WebUI tracking
      * Provides HTTP endpoints for embedding status tracking from S3 metadata
      */
     readonly statusApi: EmbeddingStatusApiProducer;
+
+    /**
+     * Work queue of embeddings consumed by vector storage, set with `workQueues: true`
+     */
+    readonly embeddingQueue: WorkQueueProducer<RagEmbeddingEnver> | undefined;
 }
 
 /**
  * RAG Embedding Service Build
  */
-export class RagEmbeddingBuild extends OdmdBuild<OdmdEnverCdk> {
-    private _envers!: Array<RagEmbeddingEnver>;
-    get envers(): Array<RagEmbeddingEnver> {
-        return this._envers;
-    }
-
-    private _dev!: RagEmbeddingEnver;
-    get dev(): RagEmbeddingEnver {
-        return this._dev;
-    }
-
-    private _prod!: RagEmbeddingEnver;
-    get prod(): RagEmbeddingEnver {
-        return this._prod;
-    }
-
-    ownerEmail?: string | undefined;
-
+export class RagEmbeddingBuild extends RagServiceBuild<RagEmbeddingEnver> {
     constructor(scope: RagContracts) {
         super(scope, 'ragEmbed', scope.githubRepos.ragEmbedding);
     }
 
-    protected initializeEnvers(): void {
-        const processingDev = this.contracts.ragDocumentProcessingBuild.dev;
-        const processingProd = this.contracts.ragDocumentProcessingBuild.prod;
-
-        this._dev = new RagEmbeddingEnver(this,
-            this.contracts.accounts.workspace1, 'us-east-2',
-            new SRC_Rev_REF('b', 'dev'),
-            processingDev
-        );
-
-        this._prod = new RagEmbeddingEnver(this,
-            this.contracts.accounts.workspace2, 'us-east-2',
-            new SRC_Rev_REF('b', 'main'),
-            processingProd
+    protected createEnver(laneName: string, targetAWSAccountID: string, targetAWSRegion: string, targetRevision: SRC_Rev_REF): RagEmbeddingEnver {
+        return new RagEmbeddingEnver(this,
+            targetAWSAccountID, targetAWSRegion, targetRevision,
+            this.contracts.ragDocumentProcessingBuild.getEnver(laneName)
         );
-
-        this._envers = [this._dev, this._prod];
-    }
-
-    get contracts(): RagContracts {
-        return super.contracts as RagContracts;
     }
 } 
\ No newline at end of file
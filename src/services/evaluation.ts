@@ -0,0 +1,181 @@
+import {
+    OdmdEnverCdk,
+    SRC_Rev_REF,
+    OdmdCrossRefConsumer,
+    OdmdCrossRefProducer,
+    OdmdEnverUserAuth
+} from "@ondemandenv/contracts-lib-base";
+import { RagServiceBuild } from "./rag-service-build";
+import type { RagContracts } from "../rag-contracts";
+import { RagUserAuthEnver } from "./user-auth";
+import { RagGenerationEnver } from "./generation";
+import { ProducerChildren, producerChildren, producerChildrenProps, ProducerChildSpecs } from "../utils/producer-children";
+import { SchemaCrossRefConsumer } from "../utils/schema-cross-refs";
+import { EvaluationReportSchema, GoldenQuestionSchema } from "../schemas/evaluation";
+import { FeedbackSchema, GenerationRequestSchema, GenerationResponseSchema } from "../schemas/generation";
+import { ConversationMessageSchema, ConversationSchema } from "../schemas/conversation";
+
+const EVALUATION_REPORT_CHILDREN = {
+    evaluationReportSchemaS3Url: {pathPart: 'report-schema', s3artifact: true, schema: EvaluationReportSchema}
+} satisfies ProducerChildSpecs;
+
+/**
+ S3 bucket for evaluation reports, one EvaluationReportSchema object per run
+ Metrics per run: groundedness, retrieval hit rate and answer relevance
+ */
+export class EvaluationReportProducer extends OdmdCrossRefProducer<RagEvaluationEnver> {
+    readonly named: ProducerChildren<typeof EVALUATION_REPORT_CHILDREN, RagEvaluationEnver>;
+
+    constructor(owner: RagEvaluationEnver) {
+        super(owner, 'evaluation-reports', {
+            children: producerChildrenProps(EVALUATION_REPORT_CHILDREN)
+        });
+        this.named = producerChildren(this, EVALUATION_REPORT_CHILDREN, {bucket: true});
+    }
+
+    /**
+     * S3 URL to the JSON schema for evaluation reports.
+     * Versioned by Git SHA.
+     */
+    public get evaluationReportSchemaS3Url() {
+        return this.named.evaluationReportSchemaS3Url
+    }
+}
+
+const GOLDEN_DATASET_CHILDREN = {
+    goldenQuestionSchemaS3Url: {pathPart: 'question-schema', s3artifact: true, schema: GoldenQuestionSchema},
+    datasetVersion: {pathPart: 'version'}
+} satisfies ProducerChildSpecs;
+
+/**
+ S3 location of the golden-question dataset the evaluation runs replay
+ */
+export class GoldenDatasetProducer extends OdmdCrossRefProducer<RagEvaluationEnver> {
+    readonly named: ProducerChildren<typeof GOLDEN_DATASET_CHILDREN, RagEvaluationEnver>;
+
+    constructor(owner: RagEvaluationEnver) {
+        super(owner, 'golden-dataset', {
+            children: producerChildrenProps(GOLDEN_DATASET_CHILDREN)
+        });
+        this.named = producerChildren(this, GOLDEN_DATASET_CHILDREN, {bucket: true});
+    }
+
+    /**
+     * S3 URL to the JSON schema for golden questions.
+     * Versioned by Git SHA.
+     */
+    public get goldenQuestionSchemaS3Url() {
+        return this.named.goldenQuestionSchemaS3Url
+    }
+
+    /**
+     * Dataset version, recorded on every report so runs are only compared on the same questions
+     */
+    public get datasetVersion() {
+        return this.named.datasetVersion
+    }
+}
+
+/**
+ * RAG Evaluation Service Enver
+ * Replays the golden questions against the same lane's generation API and reports quality metrics
+ */
+export class RagEvaluationEnver extends OdmdEnverCdk {
+    readonly generationEnver: RagGenerationEnver;
+
+    constructor(
+        owner: RagEvaluationBuild,
+        targetAWSAccountID: string,
+        targetAWSRegion: string,
+        targetRevision: SRC_Rev_REF,
+        generationEnver: RagGenerationEnver
+    ) {
+        super(owner, targetAWSAccountID, targetAWSRegion, targetRevision);
+        this.generationEnver = generationEnver;
+
+        this.evaluationReports = new EvaluationReportProducer(this);
+        this.goldenDataset = new GoldenDatasetProducer(this);
+    }
+
+    /**
+     * Generation API subscriptions
+     * Endpoint and request/response schemas used to replay the golden questions
+     */
+    generationApiEndpoint!: OdmdCrossRefConsumer<RagEvaluationEnver, RagGenerationEnver>;
+    generationRequestSchema!: SchemaCrossRefConsumer<RagEvaluationEnver, RagGenerationEnver, typeof GenerationRequestSchema>;
+    generationResponseSchema!: SchemaCrossRefConsumer<RagEvaluationEnver, RagGenerationEnver, typeof GenerationResponseSchema>;
+
+    /**
+     * Conversation and feedback schema subscriptions
+     * Used to read recorded conversations and user feedback into the evaluation runs
+     */
+    conversationSchema!: SchemaCrossRefConsumer<RagEvaluationEnver, RagGenerationEnver, typeof ConversationSchema>;
+    feedbackSchema!: SchemaCrossRefConsumer<RagEvaluationEnver, RagGenerationEnver, typeof FeedbackSchema>;
+
+    /**
+     * Conversation store subscriptions
+     * Recorded conversations are replayed turn by turn, only within the TTL policy's retention
+     */
+    conversationStoreTable!: OdmdCrossRefConsumer<RagEvaluationEnver, RagGenerationEnver>;
+    conversationTtlPolicy!: OdmdCrossRefConsumer<RagEvaluationEnver, RagGenerationEnver>;
+    conversationMessageSchemaS3Url!: SchemaCrossRefConsumer<RagEvaluationEnver, RagGenerationEnver, typeof ConversationMessageSchema>;
+    conversationPartitionKey!: OdmdCrossRefConsumer<RagEvaluationEnver, RagGenerationEnver>;
+
+    authProviderClientId!: OdmdCrossRefConsumer<this, OdmdEnverUserAuth>;
+    authProviderName!: OdmdCrossRefConsumer<this, OdmdEnverUserAuth>;
+
+    wireConsuming() {
+        const generationApi = this.generationEnver.generationApi;
+
+        this.generationApiEndpoint = new OdmdCrossRefConsumer(this, 'generationApiEndpoint', generationApi.generationApi);
+        this.generationRequestSchema = new SchemaCrossRefConsumer(this, 'generationRequestSchema', generationApi.generationRequestSchema);
+        this.generationResponseSchema = new SchemaCrossRefConsumer(this, 'generationResponseSchema', generationApi.generationResponseSchema);
+        this.conversationSchema = new SchemaCrossRefConsumer(this, 'conversationSchema', generationApi.conversationSchema);
+        this.feedbackSchema = new SchemaCrossRefConsumer(this, 'feedbackSchema', generationApi.feedbackSchema);
+
+        const conversationStore = this.generationEnver.conversationStore;
+        this.conversationStoreTable = new OdmdCrossRefConsumer(this, 'conversationStoreTable', conversationStore);
+        this.conversationTtlPolicy = new OdmdCrossRefConsumer(this, 'conversationTtlPolicy', conversationStore.conversationTtlPolicy);
+        this.conversationMessageSchemaS3Url = new SchemaCrossRefConsumer(this, 'conversationMessageSchemaS3Url', conversationStore.conversationMessageSchemaS3Url);
+        this.conversationPartitionKey = new OdmdCrossRefConsumer(this, 'conversationPartitionKey', conversationStore.conversationPartitionKey);
+
+        const ragContracts = this.owner.contracts as RagContracts;
+        const userAuthEnver = ragContracts.userAuth!.envers[0] as RagUserAuthEnver
+
+        this.authProviderClientId = new OdmdCrossRefConsumer(this, userAuthEnver.idProviderClientId.node.id, userAuthEnver.idProviderClientId);
+
+        this.authProviderName = new OdmdCrossRefConsumer(this, userAuthEnver.idProviderName.node.id, userAuthEnver.idProviderName);
+    }
+
+    /**
+     * Evaluation report producer
+     * Reports of every run, compared before promoting dev to prod
+     */
+    readonly evaluationReports: EvaluationReportProducer;
+
+    /**
+     * Golden-question dataset producer
+     */
+    readonly goldenDataset: GoldenDatasetProducer;
+}
+
+/**
+ * RAG Evaluation Service Build
+ * Offline regression evaluation next to the pipeline, not a pipeline stage
+ */
+export class RagEvaluationBuild extends RagServiceBuild<RagEvaluationEnver> {
+    constructor(scope: RagContracts) {
+        super(scope, 'ragEval', scope.githubRepos.ragEvaluation);
+    }
+
+    protected createEnver(laneName: string, targetAWSAccountID: string, targetAWSRegion: string, targetRevision: SRC_Rev_REF): RagEvaluationEnver {
+        return new RagEvaluationEnver(this,
+            targetAWSAccountID, targetAWSRegion, targetRevision,
+            this.contracts.ragGenerationBuild.getEnver(laneName)
+        );
+    }
+
+    wireConsuming() {
+        this.envers.forEach(e => e.wireConsuming());
+    }
+}
@@ -1,42 +1,70 @@
 import {
-    OdmdBuild,
     OdmdEnverCdk,
     SRC_Rev_REF,
     OdmdCrossRefConsumer,
     OdmdCrossRefProducer, OdmdEnverUserAuth
 } from "@ondemandenv/contracts-lib-base";
+import {RagServiceBuild} from "./rag-service-build";
 import type {RagContracts} from "../rag-contracts";
 import {RagUserAuthEnver} from "./user-auth";
+import {RagKnowledgeRetrievalEnver} from "./knowledge-retrieval";
+import {RagRerankingEnver} from "./reranking";
+import {ProducerChildren, producerChildren, producerChildrenProps, ProducerChildSpecs} from "../utils/producer-children";
+import {SchemaCrossRefConsumer} from "../utils/schema-cross-refs";
+import {FeedbackSchema, GenerationRequestSchema, GenerationResponseSchema} from "../schemas/generation";
+import {ConversationMessageSchema, ConversationSchema} from "../schemas/conversation";
+import {HybridSearchRequestSchema} from "../schemas/hybrid-search";
+import {RerankRequestSchema} from "../schemas/rerank";
+
+const GENERATION_API_CHILDREN = {
+    generationApi: {
+        pathPart: 'generation-api',
+        routes: [{
+            method: 'post', path: '/generate', operationId: 'generate',
+            summary: 'Answer to a query grounded on retrieved chunks',
+            request: {component: 'GenerationRequest', child: 'generationRequestSchema'},
+            response: {component: 'GenerationResponse', child: 'generationResponseSchema'}
+        }, {
+            method: 'get', path: '/conversations/{conversationId}', operationId: 'getConversation',
+            summary: 'A conversation of the calling user',
+            response: {component: 'Conversation', child: 'conversationSchema'}
+        }, {
+            method: 'post', path: '/feedback', operationId: 'postFeedback',
+            summary: 'Feedback on a generated answer',
+            request: {component: 'Feedback', child: 'feedbackSchema'}
+        }],
+        children: {
+            generationRequestSchema: {pathPart: 'generation-request-schema', s3artifact: true, schema: GenerationRequestSchema},
+            generationResponseSchema: {pathPart: 'generation-response-schema', s3artifact: true, schema: GenerationResponseSchema},
+            conversationSchema: {pathPart: 'conversation-schema', s3artifact: true, schema: ConversationSchema},
+            feedbackSchema: {pathPart: 'feedback-schema', s3artifact: true, schema: FeedbackSchema},
+        }
+    },
+    webUiCloudFrontUrl: {pathPart: 'web-ui-cloudfront-url'},
+    webUiS3Bucket: {pathPart: 'web-ui-s3-bucket', bucket: true}
+} satisfies ProducerChildSpecs;
 
 /**
  * Generation API Producer (API Gateway + Lambda + WebUI)
  * Provides generation endpoints and web interface for user consumption
  */
 export class GenerationApiProducer extends OdmdCrossRefProducer<RagGenerationEnver> {
+    readonly named: ProducerChildren<typeof GENERATION_API_CHILDREN, RagGenerationEnver>;
+
     constructor(owner: RagGenerationEnver, id: string) {
         super(owner, id, {
-            children: [
-                {
-                    pathPart: 'generation-api',
-                    children: [
-                        {pathPart: 'generation-request-schema', s3artifact: true},
-                        {pathPart: 'generation-response-schema', s3artifact: true},
-                        {pathPart: 'conversation-schema', s3artifact: true},
-                        {pathPart: 'feedback-schema', s3artifact: true},
-                    ]
-                },
-                {pathPart: 'web-ui-cloudfront-url'},
-                {pathPart: 'web-ui-s3-bucket'}
-            ]
+            children: producerChildrenProps(GENERATION_API_CHILDREN)
         });
+        this.named = producerChildren(this, GENERATION_API_CHILDREN);
     }
 
     /**
      * API Gateway endpoint for RAG generation
-     * This is the main contract interface for client applications
+     * This is the main contract interface for client applications,
+     * serving POST /generate, GET /conversations/{conversationId} and POST /feedback
      */
     public get generationApi() {
-        return this.children![0]!
+        return this.named.generationApi
     }
 
     /**
@@ -44,7 +72,7 @@ export class GenerationApiProducer extends OdmdCrossRefProducer<RagGenerationEnv
      * Defines the data structure for RAG generation requests
      */
     public get generationRequestSchema() {
-        return this.generationApi.children![0]!
+        return this.named.generationRequestSchema
     }
 
     /**
@@ -52,7 +80,7 @@ export class GenerationApiProducer extends OdmdCrossRefProducer<RagGenerationEnv
      * Defines the data structure for generated responses with sources
      */
     public get generationResponseSchema() {
-        return this.generationApi.children![1]!
+        return this.named.generationResponseSchema
     }
 
     /**
@@ -60,7 +88,7 @@ export class GenerationApiProducer extends OdmdCrossRefProducer<RagGenerationEnv
      * Defines the data structure for conversation history and context
      */
     public get conversationSchema() {
-        return this.generationApi.children![2]!
+        return this.named.conversationSchema
     }
 
     /**
@@ -68,7 +96,7 @@ export class GenerationApiProducer extends OdmdCrossRefProducer<RagGenerationEnv
      * Defines the data structure for user feedback on generated responses
      */
     public get feedbackSchema() {
-        return this.generationApi.children![3]!
+        return this.named.feedbackSchema
     }
 
     /**
@@ -76,7 +104,7 @@ export class GenerationApiProducer extends OdmdCrossRefProducer<RagGenerationEnv
      * Public URL for accessing the RAG web interface
      */
     public get webUiCloudFrontUrl() {
-        return this.children![1]!
+        return this.named.webUiCloudFrontUrl
     }
 
     /**
@@ -84,7 +112,51 @@ export class GenerationApiProducer extends OdmdCrossRefProducer<RagGenerationEnv
      * Bucket containing the compiled web application
      */
     public get webUiS3Bucket() {
-        return this.children![2]!
+        return this.named.webUiS3Bucket
+    }
+}
+
+const CONVERSATION_STORE_CHILDREN = {
+    conversationTtlPolicy: {pathPart: 'ttl-policy'},
+    conversationMessageSchemaS3Url: {pathPart: 'message-schema', s3artifact: true, schema: ConversationMessageSchema},
+    conversationPartitionKey: {pathPart: 'partition-key'}
+} satisfies ProducerChildSpecs;
+
+/**
+ DynamoDB table holding conversation history, one ConversationMessageSchema item per turn
+ Partitioned per user: partition key `<tenantId>#<userId>`, sort key `<conversationId>#<turn>`
+ */
+export class ConversationStoreProducer extends OdmdCrossRefProducer<RagGenerationEnver> {
+    readonly named: ProducerChildren<typeof CONVERSATION_STORE_CHILDREN, RagGenerationEnver>;
+
+    constructor(owner: RagGenerationEnver) {
+        super(owner, 'conversation-store', {
+            children: producerChildrenProps(CONVERSATION_STORE_CHILDREN)
+        });
+        this.named = producerChildren(this, CONVERSATION_STORE_CHILDREN);
+    }
+
+    /**
+     * TTL policy, JSON of ConversationTtlPolicySchema
+     * Items expire through the table's TTL attribute
+     */
+    public get conversationTtlPolicy() {
+        return this.named.conversationTtlPolicy
+    }
+
+    /**
+     * S3 URL to the JSON schema for stored messages.
+     * Versioned by Git SHA.
+     */
+    public get conversationMessageSchemaS3Url() {
+        return this.named.conversationMessageSchemaS3Url
+    }
+
+    /**
+     * Partition key attribute name, values built by conversationPartitionKey
+     */
+    public get conversationPartitionKey() {
+        return this.named.conversationPartitionKey
     }
 }
 
@@ -96,30 +168,67 @@ export class RagGenerationEnver extends OdmdEnverCdk {
         super(owner, targetAWSAccountID, targetAWSRegion, targetRevision);
 
         this.generationApi = new GenerationApiProducer(this, 'generation-api');
+        this.conversationStore = new ConversationStoreProducer(this);
     }
 
     /**
      * Vector Search Proxy subscriptions
-     * Consumes vector search proxy API from Knowledge Retrieval Service
+     * Consumes vector search proxy API from Knowledge Retrieval Service,
+     * search endpoint and schema only when reranking is disabled
+     */
+    vectorSearchProxySubscription?: OdmdCrossRefConsumer<RagGenerationEnver, RagKnowledgeRetrievalEnver>;
+    healthCheckSubscription!: OdmdCrossRefConsumer<RagGenerationEnver, RagKnowledgeRetrievalEnver>;
+    searchSchemaSubscription?: SchemaCrossRefConsumer<RagGenerationEnver, RagKnowledgeRetrievalEnver, typeof HybridSearchRequestSchema>;
+
+    /**
+     * Rerank subscriptions, set when reranking is enabled
+     * Consumes the rerank API from Reranking Service in place of the raw vector search
      */
-    vectorSearchProxySubscription!: OdmdCrossRefConsumer<RagGenerationEnver, OdmdEnverCdk>;
-    healthCheckSubscription!: OdmdCrossRefConsumer<RagGenerationEnver, OdmdEnverCdk>;
-    searchSchemaSubscription!: OdmdCrossRefConsumer<RagGenerationEnver, OdmdEnverCdk>;
+    rerankSubscription?: OdmdCrossRefConsumer<RagGenerationEnver, RagRerankingEnver>;
+    rerankSchemaSubscription?: SchemaCrossRefConsumer<RagGenerationEnver, RagRerankingEnver, typeof RerankRequestSchema>;
 
     authProviderClientId!: OdmdCrossRefConsumer<this, OdmdEnverUserAuth>;
     authProviderName!: OdmdCrossRefConsumer<this, OdmdEnverUserAuth>;
 
     wireConsuming() {
         const ragContracts = this.owner.contracts as RagContracts;
-        const knowledgeRetrievalEnver = ragContracts.ragKnowledgeRetrievalBuild.dev;
+        const knowledgeRetrievalEnver = ragContracts.laneResolver.peer(this, ragContracts.ragKnowledgeRetrievalBuild);
 
-        this.vectorSearchProxySubscription = new OdmdCrossRefConsumer(
-            this, 'vector-search-proxy-subscription',
-            knowledgeRetrievalEnver.vectorSearchProxyApi.vectorSearchEndpoint, {
-                defaultIfAbsent: 'default-vector-search-api',
-                trigger: 'no'
-            }
-        );
+        if (ragContracts.ragRerankingBuild) {
+            const rerankingEnver = ragContracts.laneResolver.peer(this, ragContracts.ragRerankingBuild);
+
+            this.rerankSubscription = new OdmdCrossRefConsumer(
+                this, 'rerank-subscription',
+                rerankingEnver.rerankApi.rerankEndpoint, {
+                    defaultIfAbsent: 'default-rerank-api',
+                    trigger: 'no'
+                }
+            );
+
+            this.rerankSchemaSubscription = new SchemaCrossRefConsumer(
+                this, 'rerank-schema-subscription',
+                rerankingEnver.rerankApi.rerankRequestSchema, {
+                    defaultIfAbsent: 'default-rerank-schema',
+                    trigger: 'no'
+                }
+            );
+        } else {
+            this.vectorSearchProxySubscription = new OdmdCrossRefConsumer(
+                this, 'vector-search-proxy-subscription',
+                knowledgeRetrievalEnver.vectorSearchProxyApi.vectorSearchEndpoint, {
+                    defaultIfAbsent: 'default-vector-search-api',
+                    trigger: 'no'
+                }
+            );
+
+            this.searchSchemaSubscription = new SchemaCrossRefConsumer(
+                this, 'search-schema-subscription',
+                knowledgeRetrievalEnver.vectorSearchProxyApi.searchRequestSchema, {
+                    defaultIfAbsent: 'default-search-schema',
+                    trigger: 'no'
+                }
+            );
+        }
 
         this.healthCheckSubscription = new OdmdCrossRefConsumer(
             this, 'health-check-subscription',
@@ -129,14 +238,6 @@ export class RagGenerationEnver extends OdmdEnverCdk {
             }
         );
 
-        this.searchSchemaSubscription = new OdmdCrossRefConsumer(
-            this, 'search-schema-subscription',
-            knowledgeRetrievalEnver.vectorSearchProxyApi.searchRequestSchema, {
-                defaultIfAbsent: 'default-search-schema',
-                trigger: 'no'
-            }
-        );
-
         const userAuthEnver = ragContracts.userAuth!.envers[0] as RagUserAuthEnver
 
         this.authProviderClientId = new OdmdCrossRefConsumer(this, userAuthEnver.idProviderClientId.node.id, userAuthEnver.idProviderClientId);
@@ -149,49 +250,24 @@ export class RagGenerationEnver extends OdmdEnverCdk {
      * Provides generation endpoints and web interface for client consumption
      */
     readonly generationApi: GenerationApiProducer;
+
+    /**
+     * Conversation store producer
+     * Conversation history read by knowledge retrieval for query rewriting and by evaluation for replays
+     */
+    readonly conversationStore: ConversationStoreProducer;
 }
 
 /**
  * RAG Generation Service Build
  */
-export class RagGenerationBuild extends OdmdBuild<OdmdEnverCdk> {
-    private _envers!: Array<RagGenerationEnver>;
-    get envers(): Array<RagGenerationEnver> {
-        return this._envers;
-    }
-
-    private _dev!: RagGenerationEnver;
-    get dev(): RagGenerationEnver {
-        return this._dev;
-    }
-
-    private _prod!: RagGenerationEnver;
-    get prod(): RagGenerationEnver {
-        return this._prod;
-    }
-
-    ownerEmail?: string | undefined;
-
+export class RagGenerationBuild extends RagServiceBuild<RagGenerationEnver> {
     constructor(scope: RagContracts) {
         super(scope, 'ragGen', scope.githubRepos.ragGeneration);
     }
 
-    protected initializeEnvers(): void {
-        this._dev = new RagGenerationEnver(this,
-            this.contracts.accounts.workspace1, 'us-east-2',
-            new SRC_Rev_REF('b', 'dev')
-        );
-
-        this._prod = new RagGenerationEnver(this,
-            this.contracts.accounts.workspace2, 'us-east-2',
-            new SRC_Rev_REF('b', 'main')
-        );
-
-        this._envers = [this._dev, this._prod];
-    }
-
-    get contracts(): RagContracts {
-        return super.contracts as RagContracts;
+    protected createEnver(laneName: string, targetAWSAccountID: string, targetAWSRegion: string, targetRevision: SRC_Rev_REF): RagGenerationEnver {
+        return new RagGenerationEnver(this, targetAWSAccountID, targetAWSRegion, targetRevision);
     }
 
     wireConsuming() {
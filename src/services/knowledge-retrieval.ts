@@ -1,34 +1,63 @@
 import {
-    OdmdBuild,
     OdmdEnverCdk,
     SRC_Rev_REF,
     OdmdCrossRefConsumer,
     OdmdCrossRefProducer,
     OdmdEnverUserAuth
 } from "@ondemandenv/contracts-lib-base";
+import { RagServiceBuild } from "./rag-service-build";
 import type { RagContracts } from "../rag-contracts";
 import { RagUserAuthEnver } from "./user-auth";
+import { RagVectorStorageEnver } from "./vector-storage";
+import { RagDocumentIngestionEnver } from "./document-ingestion";
+import type { RagGenerationEnver } from "./generation";
+import { ProducerChildren, producerChildren, producerChildrenProps, ProducerChildSpecs } from "../utils/producer-children";
+import { SchemaCrossRefConsumer } from "../utils/schema-cross-refs";
+import { HybridSearchRequestSchema, HybridSearchResponseSchema } from "../schemas/hybrid-search";
+import { VectorMetadataSchema } from "../schemas/vector-metadata";
+import { DocumentTermSchema } from "../schemas/lexical-index";
+import { ConversationMessageSchema } from "../schemas/conversation";
+
+const VECTOR_SEARCH_PROXY_API_CHILDREN = {
+    proxyApi: {
+        pathPart: 'vector-search-proxy-api',
+        children: {
+            vectorSearchEndpoint: {
+                pathPart: 'vector-search-endpoint',
+                routes: [{
+                    method: 'post', path: '/search', operationId: 'search',
+                    summary: 'Hybrid search over the vector and lexical indexes, forwarded to the home server',
+                    request: {component: 'HybridSearchRequest', child: 'searchRequestSchema'},
+                    response: {component: 'HybridSearchResponse', child: 'searchResponseSchema'}
+                }]
+            },
+            healthCheckEndpoint: {
+                pathPart: 'health-check-endpoint',
+                routes: [{
+                    method: 'get', path: '/health', operationId: 'getHealth',
+                    summary: 'Health of the proxy and the home server',
+                    public: true
+                }]
+            },
+            searchRequestSchema: {pathPart: 'search-request-schema', schema: HybridSearchRequestSchema},
+            searchResponseSchema: {pathPart: 'search-response-schema', schema: HybridSearchResponseSchema},
+            homeServerConfig: {pathPart: 'home-server-config'}
+        }
+    }
+} satisfies ProducerChildSpecs;
 
 /**
  * Vector Search Proxy API Producer (API Gateway + Lambda)
  * Provides vector search proxy endpoints that forward to home server
  */
 export class VectorSearchProxyApiProducer extends OdmdCrossRefProducer<RagKnowledgeRetrievalEnver> {
+    readonly named: ProducerChildren<typeof VECTOR_SEARCH_PROXY_API_CHILDREN, RagKnowledgeRetrievalEnver>;
+
     constructor(owner: RagKnowledgeRetrievalEnver, id: string) {
         super(owner, id, {
-            children: [
-                {
-                    pathPart: 'vector-search-proxy-api',
-                    children: [
-                        {pathPart: 'vector-search-endpoint'},
-                        {pathPart: 'health-check-endpoint'},
-                        {pathPart: 'search-request-schema'},
-                        {pathPart: 'search-response-schema'},
-                        {pathPart: 'home-server-config'}
-                    ]
-                }
-            ]
+            children: producerChildrenProps(VECTOR_SEARCH_PROXY_API_CHILDREN)
         });
+        this.named = producerChildren(this, VECTOR_SEARCH_PROXY_API_CHILDREN);
     }
 
     /**
@@ -36,39 +65,41 @@ export class VectorSearchProxyApiProducer extends OdmdCrossRefProducer<RagKnowle
      * This is the contract interface that Generation Service consumes
      */
     public get proxyApi() {
-        return this.children![0]!
+        return this.named.proxyApi
     }
 
     /**
-     * Vector search endpoint for RAG queries
+     * Vector search endpoint for RAG queries, POST /search
      * Forwards authenticated requests to home server
      */
     public get vectorSearchEndpoint() {
-        return this.proxyApi.children![0]!
+        return this.named.vectorSearchEndpoint
     }
 
     /**
-     * Health check endpoint for monitoring
+     * Health check endpoint for monitoring, GET /health without a JWT
      * Checks both proxy and home server health
      */
     public get healthCheckEndpoint() {
-        return this.proxyApi.children![1]!
+        return this.named.healthCheckEndpoint
     }
 
     /**
      * Schema contract for vector search request payloads
-     * Defines the data structure for vector search requests
+     * Defines the data structure for vector search requests,
+     * published from HybridSearchRequestSchema (fusion strategy and weights)
      */
     public get searchRequestSchema() {
-        return this.proxyApi.children![2]!
+        return this.named.searchRequestSchema
     }
 
     /**
      * Schema contract for vector search response payloads
-     * Defines the data structure for search results with metadata
+     * Defines the data structure for search results with metadata,
+     * published from HybridSearchResponseSchema (per-hit lexical and semantic scores)
      */
     public get searchResponseSchema() {
-        return this.proxyApi.children![3]!
+        return this.named.searchResponseSchema
     }
 
     /**
@@ -76,7 +107,7 @@ export class VectorSearchProxyApiProducer extends OdmdCrossRefProducer<RagKnowle
      * Defines the endpoint and authentication configuration for home server
      */
     public get homeServerConfig() {
-        return this.proxyApi.children![4]!
+        return this.named.homeServerConfig
     }
 }
 
@@ -85,24 +116,131 @@ export class VectorSearchProxyApiProducer extends OdmdCrossRefProducer<RagKnowle
  * Implements proxy service that forwards to home vector server
  */
 export class RagKnowledgeRetrievalEnver extends OdmdEnverCdk {
+    readonly vectorStorageEnver: RagVectorStorageEnver;
+
     constructor(
         owner: RagKnowledgeRetrievalBuild, 
         targetAWSAccountID: string, 
         targetAWSRegion: string, 
-        targetRevision: SRC_Rev_REF
+        targetRevision: SRC_Rev_REF,
+        vectorStorageEnver: RagVectorStorageEnver
     ) {
         super(owner, targetAWSAccountID, targetAWSRegion, targetRevision);
+        this.vectorStorageEnver = vectorStorageEnver;
         
         this.vectorSearchProxyApi = new VectorSearchProxyApiProducer(this, 'vector-search-proxy-api');
     }
 
+    /**
+     * Name of the vector index/collection the proxy searches
+     */
+    vectorIndexName!: OdmdCrossRefConsumer<RagKnowledgeRetrievalEnver, RagVectorStorageEnver>;
+
+    /**
+     * S3 bucket with metadata of the stored vectors
+     * Used to enrich search results with document metadata
+     */
+    vectorMetadataBucket!: OdmdCrossRefConsumer<RagKnowledgeRetrievalEnver, RagVectorStorageEnver>;
+
+    /**
+     * S3 URL subscription to the vector metadata schema
+     * Used at runtime to validate metadata read from the metadata bucket
+     */
+    vectorMetadataSchemaS3Url!: SchemaCrossRefConsumer<RagKnowledgeRetrievalEnver, RagVectorStorageEnver, typeof VectorMetadataSchema>;
+
+    /**
+     * Blue/green index subscriptions
+     * Searches go to the index of the active slot, flipping the slot switches indexes atomically
+     */
+    activeIndexSlot!: OdmdCrossRefConsumer<RagKnowledgeRetrievalEnver, RagVectorStorageEnver>;
+    blueIndexName!: OdmdCrossRefConsumer<RagKnowledgeRetrievalEnver, RagVectorStorageEnver>;
+    greenIndexName!: OdmdCrossRefConsumer<RagKnowledgeRetrievalEnver, RagVectorStorageEnver>;
+
+    /**
+     * Lexical index subscriptions for hybrid search
+     * Index name, tokenizer config and document-term schema of the BM25 index
+     */
+    lexicalIndexName!: OdmdCrossRefConsumer<RagKnowledgeRetrievalEnver, RagVectorStorageEnver>;
+    lexicalTokenizerConfig!: OdmdCrossRefConsumer<RagKnowledgeRetrievalEnver, RagVectorStorageEnver>;
+    documentTermSchemaS3Url!: SchemaCrossRefConsumer<RagKnowledgeRetrievalEnver, RagVectorStorageEnver, typeof DocumentTermSchema>;
+
+    /**
+     * Tenant registry subscriptions
+     * Searches are limited to the tenants in the caller's tenant claim
+     */
+    tenantRegistryTable!: OdmdCrossRefConsumer<RagKnowledgeRetrievalEnver, RagDocumentIngestionEnver>;
+    tenantClaimName!: OdmdCrossRefConsumer<RagKnowledgeRetrievalEnver, RagDocumentIngestionEnver>;
+
+    /**
+     * Conversation store subscriptions of the same lane's generation enver
+     * Earlier turns of the conversation are read to rewrite follow-up queries into standalone ones
+     */
+    conversationStoreTable!: OdmdCrossRefConsumer<RagKnowledgeRetrievalEnver, RagGenerationEnver>;
+    conversationMessageSchemaS3Url!: SchemaCrossRefConsumer<RagKnowledgeRetrievalEnver, RagGenerationEnver, typeof ConversationMessageSchema>;
+    conversationPartitionKey!: OdmdCrossRefConsumer<RagKnowledgeRetrievalEnver, RagGenerationEnver>;
+
     authProviderClientId!: OdmdCrossRefConsumer<this, OdmdEnverUserAuth>;
     authProviderName!: OdmdCrossRefConsumer<this, OdmdEnverUserAuth>;
     
     homeServerDomain!: OdmdCrossRefConsumer<this, RagUserAuthEnver>;
 
     wireConsuming() {
+        this.vectorIndexName = new OdmdCrossRefConsumer(
+            this, 'vectorIndexName',
+            this.vectorStorageEnver.vectorStorage.vectorIndexName
+        );
+
+        this.vectorMetadataBucket = new OdmdCrossRefConsumer(
+            this, 'vectorMetadataBucket',
+            this.vectorStorageEnver.vectorStorage.vectorMetadataBucket
+        );
+
+        this.vectorMetadataSchemaS3Url = new SchemaCrossRefConsumer(
+            this, 'vectorMetadataSchemaS3Url',
+            this.vectorStorageEnver.vectorStorage.vectorMetadataSchemaS3Url
+        );
+
+        const indexSlots = this.vectorStorageEnver.indexSlots;
+        this.activeIndexSlot = new OdmdCrossRefConsumer(this, 'activeIndexSlot', indexSlots.activeIndexSlot);
+        this.blueIndexName = new OdmdCrossRefConsumer(this, 'blueIndexName', indexSlots.blueIndexName);
+        this.greenIndexName = new OdmdCrossRefConsumer(this, 'greenIndexName', indexSlots.greenIndexName);
+
+        this.lexicalIndexName = new OdmdCrossRefConsumer(
+            this, 'lexicalIndexName',
+            this.vectorStorageEnver.lexicalIndex.lexicalIndexName
+        );
+
+        this.lexicalTokenizerConfig = new OdmdCrossRefConsumer(
+            this, 'lexicalTokenizerConfig',
+            this.vectorStorageEnver.lexicalIndex.tokenizerConfig
+        );
+
+        this.documentTermSchemaS3Url = new SchemaCrossRefConsumer(
+            this, 'documentTermSchemaS3Url',
+            this.vectorStorageEnver.lexicalIndex.documentTermSchemaS3Url
+        );
+
         const ragContracts = this.owner.contracts as RagContracts;
+
+        const tenantRegistry = ragContracts.laneResolver.peer(this, ragContracts.ragDocumentIngestionBuild).tenantRegistry;
+        this.tenantRegistryTable = new OdmdCrossRefConsumer(this, 'tenantRegistryTable', tenantRegistry.tenantRegistryTable);
+        this.tenantClaimName = new OdmdCrossRefConsumer(this, 'tenantClaimName', tenantRegistry.tenantClaimName);
+
+        const conversationStore = ragContracts.laneResolver.peer(this, ragContracts.ragGenerationBuild).conversationStore;
+        // generation deploys after retrieval, so these fall back to defaults until its first deployment
+        this.conversationStoreTable = new OdmdCrossRefConsumer(this, 'conversationStoreTable', conversationStore, {
+            defaultIfAbsent: 'default-conversation-store',
+            trigger: 'no'
+        });
+        this.conversationMessageSchemaS3Url = new SchemaCrossRefConsumer(this, 'conversationMessageSchemaS3Url', conversationStore.conversationMessageSchemaS3Url, {
+            defaultIfAbsent: 'default-conversation-message-schema',
+            trigger: 'no'
+        });
+        this.conversationPartitionKey = new OdmdCrossRefConsumer(this, 'conversationPartitionKey', conversationStore.conversationPartitionKey, {
+            defaultIfAbsent: 'default-conversation-partition-key',
+            trigger: 'no'
+        });
+
         const userAuthEnver = ragContracts.userAuth!.envers[0] as RagUserAuthEnver
         
         this.authProviderClientId = new OdmdCrossRefConsumer(this, userAuthEnver.idProviderClientId.node.id, userAuthEnver.idProviderClientId);
@@ -127,44 +265,16 @@ export class RagKnowledgeRetrievalEnver extends OdmdEnverCdk {
  * RAG Knowledge Retrieval Service Build (Hybrid Architecture)
  * Manages proxy services that forward vector searches to home servers
  */
-export class RagKnowledgeRetrievalBuild extends OdmdBuild<OdmdEnverCdk> {
-    private _envers!: Array<RagKnowledgeRetrievalEnver>;
-    get envers(): Array<RagKnowledgeRetrievalEnver> {
-        return this._envers;
-    }
-
-    private _dev!: RagKnowledgeRetrievalEnver;
-    get dev(): RagKnowledgeRetrievalEnver {
-        return this._dev;
-    }
-
-    private _prod!: RagKnowledgeRetrievalEnver;
-    get prod(): RagKnowledgeRetrievalEnver {
-        return this._prod;
-    }
-
-    ownerEmail?: string | undefined;
-
+export class RagKnowledgeRetrievalBuild extends RagServiceBuild<RagKnowledgeRetrievalEnver> {
     constructor(scope: RagContracts) {
         super(scope, 'ragRetr', scope.githubRepos.ragKnowledgeRetrieval);
     }
 
-    protected initializeEnvers(): void {
-        this._dev = new RagKnowledgeRetrievalEnver(this,
-            this.contracts.accounts.workspace1, 'us-east-2',
-            new SRC_Rev_REF('b', 'dev')
-        );
-
-        this._prod = new RagKnowledgeRetrievalEnver(this,
-            this.contracts.accounts.workspace2, 'us-east-2',
-            new SRC_Rev_REF('b', 'main')
+    protected createEnver(laneName: string, targetAWSAccountID: string, targetAWSRegion: string, targetRevision: SRC_Rev_REF): RagKnowledgeRetrievalEnver {
+        return new RagKnowledgeRetrievalEnver(this,
+            targetAWSAccountID, targetAWSRegion, targetRevision,
+            this.contracts.ragVectorStorageBuild.getEnver(laneName)
         );
-
-        this._envers = [this._dev, this._prod];
-    }
-
-    get contracts(): RagContracts {
-        return super.contracts as RagContracts;
     }
 
     wireConsuming() {
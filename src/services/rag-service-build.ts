@@ -0,0 +1,92 @@
+import { OdmdBuild, OdmdEnverCdk, SRC_Rev_REF } from "@ondemandenv/contracts-lib-base";
+import type { RagContracts } from "../rag-contracts";
+
+/**
+ * Base for RAG service builds
+ * Creates one enver per lane of RagContracts.enverTopology, in topology order,
+ * then the build's ephemeral envers of RagContracts.ephemeralEnvers
+ */
+export abstract class RagServiceBuild<E extends OdmdEnverCdk> extends OdmdBuild<OdmdEnverCdk> {
+    private _envers!: Array<E>;
+    get envers(): Array<E> {
+        return this._envers;
+    }
+
+    private _enversByLane!: Map<string, E>;
+
+    get dev(): E {
+        return this.getEnver('dev');
+    }
+
+    get prod(): E {
+        return this.getEnver('prod');
+    }
+
+    ownerEmail?: string | undefined;
+
+    /**
+     * Enver of the named topology lane, e.g. 'dev', 'prod', 'staging',
+     * or of an ephemeral lane, the parent lane's enver when this build has none there
+     */
+    getEnver(laneName: string): E {
+        const parentLane = this.contracts.laneResolver.parentLane(laneName);
+        const enver = this._enversByLane.get(laneName)
+            ?? (parentLane !== undefined ? this._enversByLane.get(parentLane) : undefined);
+        if (!enver) {
+            throw new Error(`${this.buildId} has no enver for lane '${laneName}', known lanes: ${Array.from(this._enversByLane.keys()).join(', ')}`);
+        }
+        return enver;
+    }
+
+    /**
+     * Topology lane of one of this build's envers, undefined for any other enver
+     */
+    laneOf(enver: OdmdEnverCdk): string | undefined {
+        for (const [laneName, e] of this._enversByLane) {
+            if (e === enver) {
+                return laneName;
+            }
+        }
+        return undefined;
+    }
+
+    protected initializeEnvers(): void {
+        this._envers = [];
+        this._enversByLane = new Map();
+
+        Object.entries(this.contracts.enverTopology).forEach(([laneName, lane]) => {
+            const enver = this.createEnver(laneName,
+                this.contracts.accountOfLane(lane), lane.region,
+                new SRC_Rev_REF(lane.revision.type, lane.revision.value)
+            );
+            this._envers.push(enver);
+            this._enversByLane.set(laneName, enver);
+        });
+
+        const topology = this.contracts.enverTopology;
+        Object.entries(this.contracts.ephemeralEnvers[this.buildId] ?? {}).forEach(([laneName, ephemeral]) => {
+            if (laneName in topology) {
+                throw new Error(`${this.buildId}: ephemeral lane '${laneName}' is already a topology lane`);
+            }
+            const parent = topology[ephemeral.parentLane];
+            if (!parent) {
+                throw new Error(`${this.buildId}: ephemeral lane '${laneName}' has unknown parent lane '${ephemeral.parentLane}', known lanes: ${Object.keys(topology).join(', ')}`);
+            }
+            const enver = this.createEnver(laneName,
+                this.contracts.accountOfLane(parent), parent.region,
+                new SRC_Rev_REF('b', ephemeral.branch)
+            );
+            this._envers.push(enver);
+            this._enversByLane.set(laneName, enver);
+        });
+    }
+
+    /**
+     * Creates this build's enver for one topology lane
+     */
+    protected abstract createEnver(laneName: string, targetAWSAccountID: string, targetAWSRegion: string, targetRevision: SRC_Rev_REF): E;
+
+    get contracts(): RagContracts {
+        return super.contracts as RagContracts;
+    }
+}
@@ -0,0 +1,157 @@
+import {
+    OdmdEnverCdk,
+    SRC_Rev_REF,
+    OdmdCrossRefConsumer,
+    OdmdCrossRefProducer,
+    OdmdEnverUserAuth
+} from "@ondemandenv/contracts-lib-base";
+import { RagServiceBuild } from "./rag-service-build";
+import type { RagContracts } from "../rag-contracts";
+import { RagUserAuthEnver } from "./user-auth";
+import { RagKnowledgeRetrievalEnver } from "./knowledge-retrieval";
+import { ProducerChildren, producerChildren, producerChildrenProps, ProducerChildSpecs } from "../utils/producer-children";
+import { SchemaCrossRefConsumer } from "../utils/schema-cross-refs";
+import { RerankRequestSchema, RerankResponseSchema } from "../schemas/rerank";
+import { HybridSearchRequestSchema, HybridSearchResponseSchema } from "../schemas/hybrid-search";
+
+const RERANK_API_CHILDREN = {
+    rerankApi: {
+        pathPart: 'rerank-api',
+        children: {
+            rerankEndpoint: {pathPart: 'rerank-endpoint'},
+            rerankRequestSchema: {pathPart: 'rerank-request-schema', s3artifact: true, schema: RerankRequestSchema},
+            rerankResponseSchema: {pathPart: 'rerank-response-schema', s3artifact: true, schema: RerankResponseSchema}
+        }
+    }
+} satisfies ProducerChildSpecs;
+
+/**
+ * Rerank API Producer (API Gateway + Lambda)
+ * Reorders the top-k vector search results with a cross-encoder or LLM reranker
+ */
+export class RerankApiProducer extends OdmdCrossRefProducer<RagRerankingEnver> {
+    readonly named: ProducerChildren<typeof RERANK_API_CHILDREN, RagRerankingEnver>;
+
+    constructor(owner: RagRerankingEnver, id: string) {
+        super(owner, id, {
+            children: producerChildrenProps(RERANK_API_CHILDREN)
+        });
+        this.named = producerChildren(this, RERANK_API_CHILDREN);
+    }
+
+    /**
+     * API Gateway endpoint for reranking
+     */
+    public get rerankApi() {
+        return this.named.rerankApi
+    }
+
+    /**
+     * Rerank endpoint, searches through the retrieval proxy and returns the reranked results
+     * This is the contract interface that Generation Service consumes when reranking is enabled
+     */
+    public get rerankEndpoint() {
+        return this.named.rerankEndpoint
+    }
+
+    /**
+     * Schema contract for rerank request payloads
+     * Defines the query, top-k and reranker options
+     */
+    public get rerankRequestSchema() {
+        return this.named.rerankRequestSchema
+    }
+
+    /**
+     * Schema contract for rerank response payloads
+     * Defines the reranked results with their relevance scores
+     */
+    public get rerankResponseSchema() {
+        return this.named.rerankResponseSchema
+    }
+}
+
+/**
+ * RAG Reranking Service Enver
+ * Sits between knowledge retrieval and generation
+ */
+export class RagRerankingEnver extends OdmdEnverCdk {
+    readonly knowledgeRetrievalEnver: RagKnowledgeRetrievalEnver;
+
+    constructor(
+        owner: RagRerankingBuild,
+        targetAWSAccountID: string,
+        targetAWSRegion: string,
+        targetRevision: SRC_Rev_REF,
+        knowledgeRetrievalEnver: RagKnowledgeRetrievalEnver
+    ) {
+        super(owner, targetAWSAccountID, targetAWSRegion, targetRevision);
+        this.knowledgeRetrievalEnver = knowledgeRetrievalEnver;
+
+        this.rerankApi = new RerankApiProducer(this, 'rerank-api');
+    }
+
+    /**
+     * Vector search subscriptions
+     * Consumes the search endpoint and its schemas from Knowledge Retrieval Service
+     */
+    vectorSearchSubscription!: OdmdCrossRefConsumer<RagRerankingEnver, RagKnowledgeRetrievalEnver>;
+    searchRequestSchemaSubscription!: SchemaCrossRefConsumer<RagRerankingEnver, RagKnowledgeRetrievalEnver, typeof HybridSearchRequestSchema>;
+    searchResponseSchemaSubscription!: SchemaCrossRefConsumer<RagRerankingEnver, RagKnowledgeRetrievalEnver, typeof HybridSearchResponseSchema>;
+
+    authProviderClientId!: OdmdCrossRefConsumer<this, OdmdEnverUserAuth>;
+    authProviderName!: OdmdCrossRefConsumer<this, OdmdEnverUserAuth>;
+
+    wireConsuming() {
+        const proxyApi = this.knowledgeRetrievalEnver.vectorSearchProxyApi;
+
+        this.vectorSearchSubscription = new OdmdCrossRefConsumer(
+            this, 'vector-search-subscription',
+            proxyApi.vectorSearchEndpoint
+        );
+
+        this.searchRequestSchemaSubscription = new SchemaCrossRefConsumer(
+            this, 'search-request-schema-subscription',
+            proxyApi.searchRequestSchema
+        );
+
+        this.searchResponseSchemaSubscription = new SchemaCrossRefConsumer(
+            this, 'search-response-schema-subscription',
+            proxyApi.searchResponseSchema
+        );
+
+        const ragContracts = this.owner.contracts as RagContracts;
+        const userAuthEnver = ragContracts.userAuth!.envers[0] as RagUserAuthEnver
+
+        this.authProviderClientId = new OdmdCrossRefConsumer(this, userAuthEnver.idProviderClientId.node.id, userAuthEnver.idProviderClientId);
+
+        this.authProviderName = new OdmdCrossRefConsumer(this, userAuthEnver.idProviderName.node.id, userAuthEnver.idProviderName);
+    }
+
+    /**
+     * Rerank API producer
+     * Provides the rerank endpoint and its schemas for generation
+     */
+    readonly rerankApi: RerankApiProducer;
+}
+
+/**
+ * RAG Reranking Service Build
+ * Created only when RagContracts is constructed with `reranking: true`
+ */
+export class RagRerankingBuild extends RagServiceBuild<RagRerankingEnver> {
+    constructor(scope: RagContracts) {
+        super(scope, 'ragRerank', scope.githubRepos.ragReranking);
+    }
+
+    protected createEnver(laneName: string, targetAWSAccountID: string, targetAWSRegion: string, targetRevision: SRC_Rev_REF): RagRerankingEnver {
+        return new RagRerankingEnver(this,
+            targetAWSAccountID, targetAWSRegion, targetRevision,
+            this.contracts.ragKnowledgeRetrievalBuild.getEnver(laneName)
+        );
+    }
+
+    wireConsuming() {
+        this.envers.forEach(e => e.wireConsuming());
+    }
+}
@@ -41,7 +41,8 @@ export class RagUserAuthEnver extends OdmdEnverUserAuth {
 
         const ragContracts = this.owner.contracts as RagContracts;
 
-        ragContracts.ragDocumentIngestionBuild.envers.forEach((e, index) => {
+        // ephemeral envers must not be consumed by this long-lived enver, their urls are not registered
+        ragContracts.ragDocumentIngestionBuild.envers.filter(e => !ragContracts.laneResolver.isEphemeral(e)).forEach((e, index) => {
             this.callbackUrls.push(new OdmdCrossRefConsumer(this, `doc-ing-callback-${index}`, e.authCallbackUrl, {
                 trigger: 'directly',
                 defaultIfAbsent: 'http://localhost:1234/callback'
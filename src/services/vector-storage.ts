@@ -1,39 +1,62 @@
 import {
-    OdmdBuild,
     OdmdEnverCdk,
     SRC_Rev_REF,
     OdmdCrossRefConsumer,
     OdmdCrossRefProducer,
     OdmdEnverUserAuth
 } from "@ondemandenv/contracts-lib-base";
+import { RagServiceBuild } from "./rag-service-build";
 import type { RagContracts } from "../rag-contracts";
 import { RagUserAuthEnver } from "./user-auth";
 import {RagEmbeddingEnver} from "./embedding";
+import {RagDocumentIngestionEnver} from "./document-ingestion";
+import {ProducerChildren, producerChildren, producerChildrenProps, ProducerChildSpecs, ProducerRoute} from "../utils/producer-children";
+import {SchemaCrossRefConsumer} from "../utils/schema-cross-refs";
+import {VectorUpsertRequestSchema} from "../schemas/vector-upsert";
+import {VectorMetadataSchema} from "../schemas/vector-metadata";
+import {DocumentTermSchema} from "../schemas/lexical-index";
+import {DocumentStatusSchema} from "../schemas/document-status";
+import {EmbeddingsFileSchema} from "../schemas/embeddings";
+import {DocumentTombstoneSchema} from "../schemas/document-tombstone";
+
+const VECTOR_STORAGE_CHILDREN = {
+    vectorIndexName: {pathPart: 'index-name'},
+    vectorMetadataBucket: {
+        pathPart: 'metadata-bucket',
+        objects: {
+            channel: 'vectorMetadata',
+            description: 'Metadata of the stored vectors, one JSON file per vector',
+            contentType: 'application/json',
+            payload: 'vectorMetadataSchemaS3Url'
+        }
+    },
+    vectorBackupBucket: {pathPart: 'backup-bucket', bucket: true},
+    upsertRequestSchemaS3Url: {pathPart: 'upsert-request-schema-s3-url', schema: VectorUpsertRequestSchema},
+    vectorMetadataSchemaS3Url: {pathPart: 'vector-metadata-schema-s3-url', schema: VectorMetadataSchema}
+} satisfies ProducerChildSpecs;
 
 /**
  Vector database endpoint
  Connection string/endpoint for the vector database
  */
 export class VectorStorageProducer extends OdmdCrossRefProducer<RagVectorStorageEnver> {
+    readonly named: ProducerChildren<typeof VECTOR_STORAGE_CHILDREN, RagVectorStorageEnver>;
+
     constructor(owner: RagVectorStorageEnver) {
         super(owner, 'db-endpoint', {
-            children: [
-                {pathPart: 'index-name'},
-                {pathPart: 'metadata-bucket'},
-                {pathPart: 'backup-bucket'},
-                {pathPart: 'upsert-request-schema-s3-url'},
-                {pathPart: 'vector-metadata-schema-s3-url'}
-            ]
+            children: producerChildrenProps(VECTOR_STORAGE_CHILDREN)
         });
+        this.named = producerChildren(this, VECTOR_STORAGE_CHILDREN);
     }
 
 
     /**
      * Vector index name
-     * Name of the vector index/collection in the database
+     * Name of the vector index/collection in the database,
+     * the active one of the blue/green indexSlots
      */
     public get vectorIndexName() {
-        return this.children![0]!
+        return this.named.vectorIndexName
     }
 
     /**
@@ -41,7 +64,7 @@ export class VectorStorageProducer extends OdmdCrossRefProducer<RagVectorStorage
      * Contains metadata about stored vectors and indexing status
      */
     public get vectorMetadataBucket() {
-        return this.children![1]!
+        return this.named.vectorMetadataBucket
     }
 
     /**
@@ -49,16 +72,16 @@ export class VectorStorageProducer extends OdmdCrossRefProducer<RagVectorStorage
      * Contains periodic backups of the vector database
      */
     public get vectorBackupBucket() {
-        return this.children![2]!
+        return this.named.vectorBackupBucket
     }
 
     /**
-     * S3 URL to the JSON schema for upsert requests.
+     * S3 URL to the JSON schema for upsert requests, published from VectorUpsertRequestSchema.
      * Versioned by Git SHA.
      * e.g., s3://bucket/schemas/upsert-request/upsert-request-abcdef123.json
      */
     public get upsertRequestSchemaS3Url() {
-        return this.children![3]!
+        return this.named.upsertRequestSchemaS3Url
     }
 
     /**
@@ -67,29 +90,146 @@ export class VectorStorageProducer extends OdmdCrossRefProducer<RagVectorStorage
      * e.g., s3://bucket/schemas/vector-metadata/vector-metadata-abcdef123.json
      */
     public get vectorMetadataSchemaS3Url() {
-        return this.children![4]!
+        return this.named.vectorMetadataSchemaS3Url
+    }
+}
+
+const VECTOR_INDEX_SLOTS_CHILDREN = {
+    blueIndexName: {pathPart: 'blue-index-name'},
+    blueModelVersion: {pathPart: 'blue-model-version'},
+    greenIndexName: {pathPart: 'green-index-name'},
+    greenModelVersion: {pathPart: 'green-model-version'},
+    activeIndexSlot: {pathPart: 'active-slot'}
+} satisfies ProducerChildSpecs;
+
+/**
+ Blue/green vector indexes kept side by side while re-embedding with a new model
+ The inactive slot is rebuilt from the new embedding model descriptor, then activeIndexSlot flips to it
+ */
+export class VectorIndexSlotsProducer extends OdmdCrossRefProducer<RagVectorStorageEnver> {
+    readonly named: ProducerChildren<typeof VECTOR_INDEX_SLOTS_CHILDREN, RagVectorStorageEnver>;
+
+    constructor(owner: RagVectorStorageEnver) {
+        super(owner, 'index-slots', {
+            children: producerChildrenProps(VECTOR_INDEX_SLOTS_CHILDREN)
+        });
+        this.named = producerChildren(this, VECTOR_INDEX_SLOTS_CHILDREN);
+    }
+
+    /**
+     * Name of the blue vector index
+     */
+    public get blueIndexName() {
+        return this.named.blueIndexName
+    }
+
+    /**
+     * Embedding model descriptor version the blue index was built from
+     */
+    public get blueModelVersion() {
+        return this.named.blueModelVersion
+    }
+
+    /**
+     * Name of the green vector index
+     */
+    public get greenIndexName() {
+        return this.named.greenIndexName
+    }
+
+    /**
+     * Embedding model descriptor version the green index was built from
+     */
+    public get greenModelVersion() {
+        return this.named.greenModelVersion
+    }
+
+    /**
+     * The slot searches go to: blue or green
+     * A single value so retrieval switches indexes atomically
+     */
+    public get activeIndexSlot() {
+        return this.named.activeIndexSlot
+    }
+}
+
+const LEXICAL_INDEX_CHILDREN = {
+    lexicalIndexName: {pathPart: 'index-name'},
+    tokenizerConfig: {pathPart: 'tokenizer-config'},
+    documentTermSchemaS3Url: {pathPart: 'document-term-schema-s3-url', schema: DocumentTermSchema}
+} satisfies ProducerChildSpecs;
+
+/**
+ Lexical (BM25) keyword index, kept next to the vector index for hybrid search
+ Finds exact product codes and error strings dense retrieval misses
+ */
+export class LexicalIndexProducer extends OdmdCrossRefProducer<RagVectorStorageEnver> {
+    readonly named: ProducerChildren<typeof LEXICAL_INDEX_CHILDREN, RagVectorStorageEnver>;
+
+    constructor(owner: RagVectorStorageEnver) {
+        super(owner, 'lexical-index', {
+            children: producerChildrenProps(LEXICAL_INDEX_CHILDREN)
+        });
+        this.named = producerChildren(this, LEXICAL_INDEX_CHILDREN);
+    }
+
+    /**
+     * Lexical index name
+     * Name of the BM25 index built from the same chunks as the vector index
+     */
+    public get lexicalIndexName() {
+        return this.named.lexicalIndexName
+    }
+
+    /**
+     * Tokenizer configuration as JSON (analyzer, lowercasing, stemming, stop words)
+     * Queries must be tokenized the same way the index was built
+     */
+    public get tokenizerConfig() {
+        return this.named.tokenizerConfig
+    }
+
+    /**
+     * S3 URL to the JSON schema for document-term entries (term, chunk id, term frequency, field).
+     * Versioned by Git SHA.
+     * e.g., s3://bucket/schemas/document-term/document-term-abcdef123.json
+     */
+    public get documentTermSchemaS3Url() {
+        return this.named.documentTermSchemaS3Url
     }
 }
 
+const VECTOR_STORAGE_STATUS_API_CHILDREN = {
+    statusResponseSchema: {pathPart: 'schema', schema: DocumentStatusSchema}
+} satisfies ProducerChildSpecs;
+
+const VECTOR_STORAGE_STATUS_API_ROUTES: ProducerRoute[] = [{
+    method: 'get', path: '/status/{docId}', operationId: 'getVectorStorageStatus',
+    summary: 'Vector storage status of a document',
+    response: {component: 'DocumentStatus', child: 'statusResponseSchema'}
+}];
+
 /**
  HTTP API Gateway endpoint for vector storage status
  Pattern: https://{enverId}.ragVectorStorage.{domain}/status/{docId}
  */
 export class VectorStorageStatusApiProducer extends OdmdCrossRefProducer<RagVectorStorageEnver> {
+    readonly named: ProducerChildren<typeof VECTOR_STORAGE_STATUS_API_CHILDREN, RagVectorStorageEnver>;
+
     constructor(owner: RagVectorStorageEnver ) {
         super(owner, 'status-api', {
-            children: [
-                {pathPart: 'schema'}
-            ]
+            children: producerChildrenProps(VECTOR_STORAGE_STATUS_API_CHILDREN)
         });
+        this.named = producerChildren(this, VECTOR_STORAGE_STATUS_API_CHILDREN, {routes: VECTOR_STORAGE_STATUS_API_ROUTES});
     }
 
     /**
      * Schema contract for status response payloads
-     * Defines the data structure for vector storage status responses
+     * Defines the data structure for vector storage status responses,
+     * published from DocumentStatusSchema including the deleted and purged states
      */
     public get statusResponseSchema() {
-        return this.children![0]!
+        return this.named.statusResponseSchema
     }
 }
 
@@ -104,6 +244,8 @@ export class RagVectorStorageEnver extends OdmdEnverCdk {
         this.embeddingEnver = embeddingEnver;
 
         this.vectorStorage = new VectorStorageProducer(this);
+        this.lexicalIndex = new LexicalIndexProducer(this);
+        this.indexSlots = new VectorIndexSlotsProducer(this);
         this.statusApi = new VectorStorageStatusApiProducer(this);
     }
 
@@ -117,7 +259,38 @@ export class RagVectorStorageEnver extends OdmdEnverCdk {
      * S3 URL subscription to the embedding status schema
      * Used at runtime to validate incoming data from the embedding service
      */
-    embeddingStatusSchemaS3Url!: OdmdCrossRefConsumer<RagVectorStorageEnver, RagEmbeddingEnver>;
+    embeddingStatusSchemaS3Url!: SchemaCrossRefConsumer<RagVectorStorageEnver, RagEmbeddingEnver, typeof EmbeddingsFileSchema>;
+
+    /**
+     * Embedding model descriptor subscriptions
+     * Embeddings are written to the index slot built from the same descriptor
+     */
+    embeddingModelId!: OdmdCrossRefConsumer<RagVectorStorageEnver, RagEmbeddingEnver>;
+    embeddingDimension!: OdmdCrossRefConsumer<RagVectorStorageEnver, RagEmbeddingEnver>;
+    embeddingNormalization!: OdmdCrossRefConsumer<RagVectorStorageEnver, RagEmbeddingEnver>;
+    embeddingModelVersion!: OdmdCrossRefConsumer<RagVectorStorageEnver, RagEmbeddingEnver>;
+
+    /**
+     * Deletion events of the same lane's ingestion enver
+     * Vectors and lexical index entries of deleted or replaced documents are removed on each tombstone
+     */
+    deletionEvents!: OdmdCrossRefConsumer<RagVectorStorageEnver, RagDocumentIngestionEnver>;
+    tombstoneSchemaS3Url!: SchemaCrossRefConsumer<RagVectorStorageEnver, RagDocumentIngestionEnver, typeof DocumentTombstoneSchema>;
+
+    /**
+     * Tenant registry of the same lane's ingestion enver
+     * Vectors are upserted into the namespace of their tenant
+     */
+    tenantRegistryTable!: OdmdCrossRefConsumer<RagVectorStorageEnver, RagDocumentIngestionEnver>;
+
+    /**
+     * Work queue of the embedding enver upstream, set with `workQueues: true`
+     * Embeddings are received from the queue instead of polling the bucket
+     */
+    workQueue?: OdmdCrossRefConsumer<RagVectorStorageEnver, RagEmbeddingEnver>;
+    workQueueArn?: OdmdCrossRefConsumer<RagVectorStorageEnver, RagEmbeddingEnver>;
+    deadLetterQueueArn?: OdmdCrossRefConsumer<RagVectorStorageEnver, RagEmbeddingEnver>;
+    redrivePolicy?: OdmdCrossRefConsumer<RagVectorStorageEnver, RagEmbeddingEnver>;
 
     authProviderClientId!: OdmdCrossRefConsumer<this, OdmdEnverUserAuth>;
     authProviderName!: OdmdCrossRefConsumer<this, OdmdEnverUserAuth>;
@@ -130,12 +303,43 @@ export class RagVectorStorageEnver extends OdmdEnverCdk {
             this.embeddingEnver.embeddingStorage
         );
 
-        this.embeddingStatusSchemaS3Url = new OdmdCrossRefConsumer(
+        this.embeddingStatusSchemaS3Url = new SchemaCrossRefConsumer(
             this, 'embeddingStatusSchemaS3Url',
             this.embeddingEnver.embeddingStorage.embeddingStatusSchemaS3Url
         );
 
+        const embeddingModel = this.embeddingEnver.embeddingModel;
+        this.embeddingModelId = new OdmdCrossRefConsumer(this, 'embeddingModelId', embeddingModel.modelId);
+        this.embeddingDimension = new OdmdCrossRefConsumer(this, 'embeddingDimension', embeddingModel.dimension);
+        this.embeddingNormalization = new OdmdCrossRefConsumer(this, 'embeddingNormalization', embeddingModel.normalization);
+        this.embeddingModelVersion = new OdmdCrossRefConsumer(this, 'embeddingModelVersion', embeddingModel.modelVersion);
+
+        const embeddingQueue = this.embeddingEnver.embeddingQueue;
+        if (embeddingQueue) {
+            this.workQueue = new OdmdCrossRefConsumer(this, 'workQueue', embeddingQueue);
+            this.workQueueArn = new OdmdCrossRefConsumer(this, 'workQueueArn', embeddingQueue.workQueueArn);
+            this.deadLetterQueueArn = new OdmdCrossRefConsumer(this, 'deadLetterQueueArn', embeddingQueue.deadLetterQueueArn);
+            this.redrivePolicy = new OdmdCrossRefConsumer(this, 'redrivePolicy', embeddingQueue.redrivePolicy);
+        }
+
         const ragContracts = this.owner.contracts as RagContracts;
+        const ingestionEnver = ragContracts.laneResolver.peer(this, ragContracts.ragDocumentIngestionBuild);
+
+        this.deletionEvents = new OdmdCrossRefConsumer(
+            this, 'deletionEvents',
+            ingestionEnver.deletionEvents
+        );
+
+        this.tombstoneSchemaS3Url = new SchemaCrossRefConsumer(
+            this, 'tombstoneSchemaS3Url',
+            ingestionEnver.deletionEvents.tombstoneSchemaS3Url
+        );
+
+        this.tenantRegistryTable = new OdmdCrossRefConsumer(
+            this, 'tenantRegistryTable',
+            ingestionEnver.tenantRegistry.tenantRegistryTable
+        );
+
         const userAuthEnver = ragContracts.userAuth!.envers[0] as RagUserAuthEnver
         
         this.authProviderClientId = new OdmdCrossRefConsumer(this, userAuthEnver.idProviderClientId.node.id, userAuthEnver.idProviderClientId);
@@ -154,6 +358,18 @@ export class RagVectorStorageEnver extends OdmdEnverCdk {
      */
     readonly vectorStorage: VectorStorageProducer;
 
+    /**
+     * Lexical index producer
+     * Provides the keyword index for hybrid search in knowledge retrieval service
+     */
+    readonly lexicalIndex: LexicalIndexProducer;
+
+    /**
+     * Blue/green index slots producer
+     * Says which of the two side-by-side vector indexes retrieval searches
+     */
+    readonly indexSlots: VectorIndexSlotsProducer;
+
     /**
      * Status API producer for WebUI tracking
      * Provides HTTP endpoints for vector storage status tracking
@@ -164,49 +380,16 @@ export class RagVectorStorageEnver extends OdmdEnverCdk {
 /**
  * RAG Vector Storage Service Build
  */
-export class RagVectorStorageBuild extends OdmdBuild<OdmdEnverCdk> {
-    private _envers!: Array<RagVectorStorageEnver>;
-    get envers(): Array<RagVectorStorageEnver> {
-        return this._envers;
-    }
-
-    private _dev!: RagVectorStorageEnver;
-    get dev(): RagVectorStorageEnver {
-        return this._dev;
-    }
-
-    private _prod!: RagVectorStorageEnver;
-    get prod(): RagVectorStorageEnver {
-        return this._prod;
-    }
-
-    ownerEmail?: string | undefined;
-
+export class RagVectorStorageBuild extends RagServiceBuild<RagVectorStorageEnver> {
     constructor(scope: RagContracts) {
         super(scope, 'ragStore', scope.githubRepos.ragVectorStorage);
     }
 
-    protected initializeEnvers(): void {
-        const embeddingDev = this.contracts.ragEmbeddingBuild.dev;
-        const embeddingProd = this.contracts.ragEmbeddingBuild.prod;
-
-        this._dev = new RagVectorStorageEnver(this,
-            this.contracts.accounts.workspace1, 'us-east-2',
-            new SRC_Rev_REF('b', 'dev'),
-            embeddingDev
-        );
-
-        this._prod = new RagVectorStorageEnver(this,
-            this.contracts.accounts.workspace2, 'us-east-2',
-            new SRC_Rev_REF('b', 'main'),
-            embeddingProd
+    protected createEnver(laneName: string, targetAWSAccountID: string, targetAWSRegion: string, targetRevision: SRC_Rev_REF): RagVectorStorageEnver {
+        return new RagVectorStorageEnver(this,
+            targetAWSAccountID, targetAWSRegion, targetRevision,
+            this.contracts.ragEmbeddingBuild.getEnver(laneName)
         );
-
-        this._envers = [this._dev, this._prod];
-    }
-
-    get contracts(): RagContracts {
-        return super.contracts as RagContracts;
     }
 
     wireConsuming() {
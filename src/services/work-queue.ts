@@ -0,0 +1,45 @@
+import { OdmdEnverCdk, OdmdCrossRefProducer } from "@ondemandenv/contracts-lib-base";
+import { ProducerChildren, producerChildren, producerChildrenProps, ProducerChildSpecs } from "../utils/producer-children";
+
+const WORK_QUEUE_CHILDREN = {
+    workQueueArn: {pathPart: 'arn'},
+    deadLetterQueueArn: {pathPart: 'dlq-arn'},
+    redrivePolicy: {pathPart: 'redrive-policy'}
+} satisfies ProducerChildSpecs;
+
+/**
+ SQS work queue URL the next stage consumes instead of building its own S3 notification plumbing
+ The upstream stage's bucket notifies the queue, the next stage polls it and failed messages land in the DLQ for replay
+ Published only when RagContracts is constructed with `workQueues: true`
+ */
+export class WorkQueueProducer<T extends OdmdEnverCdk> extends OdmdCrossRefProducer<T> {
+    readonly named: ProducerChildren<typeof WORK_QUEUE_CHILDREN, T>;
+
+    constructor(owner: T, id: string) {
+        super(owner, id, {
+            children: producerChildrenProps(WORK_QUEUE_CHILDREN)
+        });
+        this.named = producerChildren(this, WORK_QUEUE_CHILDREN);
+    }
+
+    /**
+     * Work queue ARN, for the consumer's event source mapping and IAM policy
+     */
+    public get workQueueArn() {
+        return this.named.workQueueArn
+    }
+
+    /**
+     * Dead-letter queue ARN, replayed into the work queue once the failure is fixed
+     */
+    public get deadLetterQueueArn() {
+        return this.named.deadLetterQueueArn
+    }
+
+    /**
+     * Redrive policy descriptor, JSON of RedrivePolicySchema
+     */
+    public get redrivePolicy() {
+        return this.named.redrivePolicy
+    }
+}
@@ -13,7 +13,9 @@ export interface GithubReposRag extends GithubReposCentralView {
     ragEmbedding: GithubRepo;
     ragVectorStorage: GithubRepo;
     ragKnowledgeRetrieval: GithubRepo;
+    ragReranking: GithubRepo;
     ragGeneration: GithubRepo;
+    ragEvaluation: GithubRepo;
 }
 
 /**
@@ -22,4 +24,94 @@ export interface GithubReposRag extends GithubReposCentralView {
 export interface AccountsRag extends AccountsCentralView {
     workspace1: string;
     workspace2: string;
-}
\ No newline at end of file
+}
+
+/**
+ * Placement of one enver lane (e.g. dev, prod) shared by every RAG service build
+ */
+export interface RagEnverLaneConfig {
+    /**
+     * Unset on local lanes, their envers target LOCAL_BUILD_ACCOUNT
+     */
+    account?: keyof AccountsRag;
+    region: string;
+    revision: {
+        type: 'b' | 't';
+        value: string;
+    };
+    /**
+     * Set on lanes that run without AWS, producers resolve to these localhost stand-ins
+     */
+    localStandIns?: RagLocalStandIns;
+}
+
+/**
+ * Enver lane name to placement, in the order envers are created
+ */
+export type RagEnverTopology = Record<string, RagEnverLaneConfig>;
+
+/**
+ * On-demand branch enver of one build, placed like its parent lane.
+ * Builds without an enver in the ephemeral lane are consumed from their parent lane enver.
+ */
+export interface RagEphemeralEnverConfig {
+    /**
+     * Branch the enver deploys, may be a pattern like 'feature/*'
+     */
+    branch: string;
+    /**
+     * Topology lane the enver inherits its upstream producers and placement from
+     */
+    parentLane: string;
+}
+
+/**
+ * Ephemeral lane name to enver config, keyed by build id
+ */
+export type RagEphemeralEnvers = Record<string, Record<string, RagEphemeralEnverConfig>>;
+
+/**
+ * Localhost stand-ins for the AWS resources of a local lane
+ */
+export interface RagLocalStandIns {
+    /**
+     * Directory standing in for S3 buckets, one sub directory per build, and the root of the local schema store
+     */
+    bucketDir: string;
+    /**
+     * Base URL of the local HTTP server standing in for API endpoints
+     */
+    httpEndpoint: string;
+}
+
+/**
+ * RagContracts constructor options
+ */
+export interface RagContractsOptions {
+    /**
+     * Defaults to CDK_DEFAULT_ACCOUNT, then the account of CODEBUILD_BUILD_ARN
+     */
+    buildAccount?: string;
+    /**
+     * Defaults to CDK_DEFAULT_REGION
+     */
+    buildRegion?: string;
+    /**
+     * Local mode: no AWS environment needed and a `local` lane is added to the topology,
+     * `true` uses the default stand-ins
+     */
+    local?: boolean | RagLocalStandIns;
+    /**
+     * On-demand branch envers per build id, e.g. `{ragEmbed: {'embed-feature': {branch: 'feature/*', parentLane: 'dev'}}}`
+     */
+    ephemeralEnvers?: RagEphemeralEnvers;
+    /**
+     * Adds the reranking build between retrieval and generation, generation then consumes the rerank endpoint
+     */
+    reranking?: boolean;
+    /**
+     * Ingestion, processing and embedding publish an SQS work queue, DLQ and redrive policy,
+     * consumed by the next stage instead of its own S3 notification plumbing
+     */
+    workQueues?: boolean;
+}
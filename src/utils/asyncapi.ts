@@ -0,0 +1,194 @@
+import type {ZodObject} from 'zod';
+import {zodToJsonSchema} from 'zod-to-json-schema';
+import type {RagContracts} from "../rag-contracts";
+import {DocumentStatusStateSchema} from "../schemas/document-status";
+import {ProducerBucketSlot, producerBucketSlots} from './producer-children';
+import {buildContractGraph, ContractGraph, ContractGraphNode} from './contract-graph';
+
+/**
+ * S3 object metadata keys the stages exchange status through, `x-amz-meta-<key>` on the object
+ */
+export type S3MetadataKey = 'processing-status' | 'placeholder' | 'document-id' | 'chunk-id';
+
+export interface S3MetadataHeader {
+    type: 'string';
+    enum?: readonly string[];
+    description: string;
+}
+
+export const S3_METADATA_HEADERS: Record<S3MetadataKey, S3MetadataHeader> = {
+    'processing-status': {
+        type: 'string',
+        enum: DocumentStatusStateSchema.options,
+        description: 'Status of the document in the producing stage'
+    },
+    'placeholder': {
+        type: 'string',
+        enum: ['true', 'false'],
+        description: "'true' on the object written when the stage starts, overwritten with the result"
+    },
+    'document-id': {type: 'string', description: 'Document the object belongs to'},
+    'chunk-id': {type: 'string', description: 'Chunk the embeddings were generated for'}
+};
+
+/**
+ * A JSON Schema as zod-to-json-schema emits it, without `$schema`
+ */
+export type AsyncApiSchemaObject = Record<string, unknown>;
+
+export interface AsyncApiRef {
+    $ref: string;
+}
+
+export interface AsyncApiChannel {
+    /**
+     * `{bucket}`, the bucket name is the value of the producer in `x-odmd-producer`
+     */
+    address: string;
+    description: string;
+    parameters: Record<string, { description: string }>;
+    messages: Record<string, AsyncApiRef>;
+    /**
+     * Construct path of the bucket producer
+     */
+    'x-odmd-producer': string;
+}
+
+export interface AsyncApiOperation {
+    action: 'send' | 'receive';
+    channel: AsyncApiRef;
+    /**
+     * Construct path of the sending or receiving enver
+     */
+    'x-odmd-enver': string;
+}
+
+export interface AsyncApiMessage {
+    name: string;
+    contentType: string;
+    payload: AsyncApiSchemaObject;
+    headers?: {
+        type: 'object';
+        properties: Record<string, AsyncApiSchemaObject | S3MetadataHeader>;
+    };
+}
+
+/**
+ * AsyncAPI 3 document of a lane's S3-event pipeline
+ */
+export interface AsyncApiDocument {
+    asyncapi: '3.0.0';
+    info: { title: string, version: string };
+    channels: Record<string, AsyncApiChannel>;
+    operations: Record<string, AsyncApiOperation>;
+    components: {
+        messages: Record<string, AsyncApiMessage>;
+    };
+}
+
+/**
+ * Payload of objects stored as uploaded, whatever the file type
+ */
+const RAW_FILE_PAYLOAD: AsyncApiSchemaObject = {type: 'string', format: 'binary'};
+
+/**
+ * Channels of the bucket producers of the lane's envers, in pipeline order. A bucket's object bodies are the payload,
+ * its object metadata the headers. The producing enver sends, every enver consuming the bucket in the contract graph
+ * receives, ephemeral lanes included when the bucket is their parent lane's.
+ */
+export function buildAsyncApiDocument(
+    contracts: RagContracts,
+    laneName: string,
+    graph: ContractGraph = buildContractGraph(contracts)
+): AsyncApiDocument {
+    const nodes = new Map(graph.nodes.map(n => [n.id, n]));
+    const envers = contracts.laneResolver.pipeline.map(build => build.getEnver(laneName));
+
+    const channels: AsyncApiDocument['channels'] = {};
+    const operations: AsyncApiDocument['operations'] = {};
+    const messages: AsyncApiDocument['components']['messages'] = {};
+
+    envers.forEach(enver => producerBucketSlots(enver).forEach(slot => {
+        const channel = slot.objects.channel;
+        const message = `${channel}Object`;
+        messages[message] = bucketMessage(message, slot);
+
+        channels[channel] = {
+            address: '{bucket}',
+            description: slot.objects.description,
+            parameters: {bucket: {description: `Bucket name, the value of ${slot.bucket.node.path}`}},
+            messages: {[message]: {$ref: `#/components/messages/${message}`}},
+            'x-odmd-producer': slot.bucket.node.path
+        };
+
+        const channelRef = {$ref: `#/channels/${channel}`};
+        operations[`${channel}.send`] = {
+            action: 'send',
+            channel: channelRef,
+            'x-odmd-enver': enver.node.path
+        };
+
+        subscribers(graph, nodes, slot.bucket.node.path).forEach(subscriber => {
+            operations[`${channel}.receive.${subscriber.buildId}.${subscriber.lane ?? subscriber.label}`] = {
+                action: 'receive',
+                channel: channelRef,
+                'x-odmd-enver': subscriber.id
+            };
+        });
+    }));
+
+    return {
+        asyncapi: '3.0.0',
+        info: {
+            title: `RAG S3-event pipeline (${laneName})`,
+            version: envers[0].targetRevision.toPathPartStr()
+        },
+        channels,
+        operations,
+        components: {messages}
+    };
+}
+
+/**
+ * Object bodies from the payload schema child or as uploaded,
+ * headers from the fields of the metadata schema child and the status metadata keys
+ */
+function bucketMessage(name: string, slot: ProducerBucketSlot): AsyncApiMessage {
+    const headers: NonNullable<AsyncApiMessage['headers']>['properties'] = {};
+    const metadataFields = slot.metadata ? toJsonSchema(slot.metadata.schema).properties : undefined;
+    Object.entries((metadataFields ?? {}) as Record<string, AsyncApiSchemaObject>).forEach(([field, schema]) => {
+        headers[metadataKey(field)] = schema;
+    });
+    (slot.objects.statusMetadata ?? []).forEach(key => {
+        headers[key] = S3_METADATA_HEADERS[key];
+    });
+
+    return {
+        name,
+        contentType: slot.objects.contentType,
+        payload: slot.payload ? toJsonSchema(slot.payload.schema) : RAW_FILE_PAYLOAD,
+        ...(Object.keys(headers).length > 0 ? {headers: {type: 'object', properties: headers}} : {})
+    };
+}
+
+/**
+ * S3 returns metadata keys lowercased, fields are stored under their kebab-case name, e.g. documentId as document-id
+ */
+function metadataKey(field: string): string {
+    return field.replace(/[A-Z]/g, c => '-' + c.toLowerCase());
+}
+
+function toJsonSchema(schema: ZodObject<any>): AsyncApiSchemaObject {
+    const {$schema, ...jsonSchema}: AsyncApiSchemaObject = zodToJsonSchema(schema, {$refStrategy: 'none'});
+    return jsonSchema;
+}
+
+/**
+ * Envers with a consumer of the producer, in graph order
+ */
+function subscribers(graph: ContractGraph, nodes: Map<string, ContractGraphNode>, producer: string): ContractGraphNode[] {
+    const envers = graph.edges
+        .filter(e => e.producer == producer)
+        .map(e => nodes.get(nodes.get(e.consumer)!.parent!)!);
+    return Array.from(new Set(envers));
+}
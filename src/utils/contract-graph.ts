@@ -0,0 +1,214 @@
+import {
+    AnyOdmdEnVer,
+    OdmdCrossRefConsumer,
+    OdmdCrossRefProducer
+} from "@ondemandenv/contracts-lib-base";
+import type { RagContracts } from "../rag-contracts";
+
+export type ContractGraphNodeKind = 'build' | 'enver' | 'producer' | 'consumer';
+
+export type ContractGraphFormat = 'json' | 'mermaid' | 'dot';
+
+/**
+ * Node of the contract graph, id is the construct path so it is unique across the whole app
+ */
+export interface ContractGraphNode {
+    id: string;
+    kind: ContractGraphNodeKind;
+    label: string;
+    /**
+     * Containing node: build of an enver, enver of a top level producer or consumer, parent producer of a child
+     */
+    parent?: string;
+    buildId?: string;
+    lane?: string;
+    /**
+     * Set on envers of ephemeral lanes
+     */
+    parentLane?: string;
+    account?: string;
+    region?: string;
+    revision?: string;
+}
+
+/**
+ * Consumer → producer edge, carrying the consumer options
+ */
+export interface ContractGraphEdge {
+    consumer: string;
+    producer: string;
+    trigger?: string;
+    defaultIfAbsent?: string;
+}
+
+export interface ContractGraph {
+    nodes: ContractGraphNode[];
+    edges: ContractGraphEdge[];
+}
+
+/**
+ * Walks every build, enver, producer (including nested children) and consumer of the contracts
+ */
+export function buildContractGraph(contracts: RagContracts): ContractGraph {
+    const nodes: ContractGraphNode[] = [];
+    const edges: ContractGraphEdge[] = [];
+
+    contracts.odmdBuilds.forEach(build => {
+        nodes.push({id: build.node.path, kind: 'build', label: build.buildId, buildId: build.buildId});
+
+        (build.envers as AnyOdmdEnVer[]).forEach(enver => {
+            const lane = contracts.laneResolver.laneOf(enver);
+            nodes.push({
+                id: enver.node.path,
+                kind: 'enver',
+                label: enver.node.id,
+                parent: build.node.path,
+                buildId: build.buildId,
+                lane,
+                parentLane: lane !== undefined ? contracts.laneResolver.parentLane(lane) : undefined,
+                account: enver.targetAWSAccountID,
+                region: enver.targetAWSRegion,
+                revision: enver.targetRevision.value
+            });
+
+            const constructs = enver.node.findAll();
+            const producers = constructs.filter(c => c instanceof OdmdCrossRefProducer) as OdmdCrossRefProducer<AnyOdmdEnVer>[];
+
+            const nested = new Set<OdmdCrossRefProducer<AnyOdmdEnVer>>();
+            producers.forEach(p => p.children?.forEach(child => nested.add(child)));
+
+            const addProducer = (p: OdmdCrossRefProducer<AnyOdmdEnVer>, parent: string) => {
+                nodes.push({id: p.node.path, kind: 'producer', label: p.node.id, parent, buildId: build.buildId});
+                p.children?.forEach(child => addProducer(child, p.node.path));
+            };
+            producers.filter(p => !nested.has(p)).forEach(p => addProducer(p, enver.node.path));
+
+            (constructs.filter(c => c instanceof OdmdCrossRefConsumer) as OdmdCrossRefConsumer<AnyOdmdEnVer, AnyOdmdEnVer>[])
+                .forEach(c => {
+                    nodes.push({id: c.node.path, kind: 'consumer', label: c.node.id, parent: enver.node.path, buildId: build.buildId});
+                    edges.push({
+                        consumer: c.node.path,
+                        producer: c.producer.node.path,
+                        trigger: c.options?.trigger,
+                        defaultIfAbsent: c.options?.defaultIfAbsent
+                    });
+                });
+        });
+    });
+
+    return {nodes, edges};
+}
+
+export function contractGraphToJson(graph: ContractGraph): string {
+    return JSON.stringify(graph, null, 2);
+}
+
+/**
+ * Mermaid flowchart: builds and envers as nested subgraphs, producer → consumer edges labelled with options
+ */
+export function contractGraphToMermaid(graph: ContractGraph): string {
+    const ids = shortIds(graph);
+    const lines = ['graph LR'];
+
+    const render = (parent: string | undefined, indent: string) => {
+        graph.nodes.filter(n => n.parent === parent).forEach(n => {
+            if (n.kind == 'build' || n.kind == 'enver') {
+                lines.push(`${indent}subgraph ${ids.get(n.id)}["${escapeMermaid(n.label)}"]`);
+                render(n.id, indent + '    ');
+                lines.push(`${indent}end`);
+            } else {
+                const shape = n.kind == 'producer' ? `["${escapeMermaid(n.label)}"]` : `(["${escapeMermaid(n.label)}"])`;
+                lines.push(`${indent}${ids.get(n.id)}${shape}`);
+                render(n.id, indent);
+                if (n.kind == 'producer' && graph.nodes.find(p => p.id == n.parent)?.kind == 'producer') {
+                    lines.push(`${indent}${ids.get(n.parent!)} -.- ${ids.get(n.id)}`);
+                }
+            }
+        });
+    };
+    render(undefined, '    ');
+
+    graph.edges.forEach(e => {
+        const label = edgeLabel(e);
+        lines.push(`    ${ids.get(e.producer)} -->${label ? `|"${escapeMermaid(label)}"|` : ''} ${ids.get(e.consumer)}`);
+    });
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Graphviz DOT: builds and envers as nested clusters, producer → consumer edges labelled with options
+ */
+export function contractGraphToDot(graph: ContractGraph): string {
+    const ids = shortIds(graph);
+    const lines = ['digraph contracts {', '    rankdir=LR;', '    compound=true;'];
+
+    const render = (parent: string | undefined, indent: string) => {
+        graph.nodes.filter(n => n.parent === parent).forEach(n => {
+            if (n.kind == 'build' || n.kind == 'enver') {
+                lines.push(`${indent}subgraph cluster_${ids.get(n.id)} {`);
+                lines.push(`${indent}    label="${escapeDot(n.label)}";`);
+                render(n.id, indent + '    ');
+                lines.push(`${indent}}`);
+            } else {
+                const shape = n.kind == 'producer' ? 'box' : 'ellipse';
+                lines.push(`${indent}${ids.get(n.id)} [label="${escapeDot(n.label)}", shape=${shape}];`);
+                render(n.id, indent);
+                if (n.kind == 'producer' && graph.nodes.find(p => p.id == n.parent)?.kind == 'producer') {
+                    lines.push(`${indent}${ids.get(n.parent!)} -> ${ids.get(n.id)} [style=dotted, arrowhead=none];`);
+                }
+            }
+        });
+    };
+    render(undefined, '    ');
+
+    graph.edges.forEach(e => {
+        const label = edgeLabel(e);
+        lines.push(`    ${ids.get(e.producer)} -> ${ids.get(e.consumer)}${label ? ` [label="${escapeDot(label)}"]` : ''};`);
+    });
+
+    lines.push('}');
+    return lines.join('\n') + '\n';
+}
+
+export function renderContractGraph(graph: ContractGraph, format: ContractGraphFormat): string {
+    switch (format) {
+        case 'json':
+            return contractGraphToJson(graph);
+        case 'mermaid':
+            return contractGraphToMermaid(graph);
+        case 'dot':
+            return contractGraphToDot(graph);
+        default:
+            throw new Error(`Unknown contract graph format: ${format}`);
+    }
+}
+
+function shortIds(graph: ContractGraph): Map<string, string> {
+    const ids = new Map(graph.nodes.map((n, i) => [n.id, `n${i}`]));
+    graph.edges.forEach(e => [e.consumer, e.producer].forEach(id => {
+        if (!ids.has(id)) {
+            ids.set(id, `n${ids.size}`);
+        }
+    }));
+    return ids;
+}
+
+function edgeLabel(e: ContractGraphEdge): string {
+    const parts: string[] = [];
+    if (e.trigger !== undefined) {
+        parts.push(`trigger: ${e.trigger}`);
+    }
+    if (e.defaultIfAbsent !== undefined) {
+        parts.push(`default: ${e.defaultIfAbsent}`);
+    }
+    return parts.join(', ');
+}
+
+function escapeMermaid(label: string): string {
+    return label.replace(/"/g, '#quot;');
+}
+
+function escapeDot(label: string): string {
+    return label.replace(/"/g, '\\"');
+}
@@ -0,0 +1,223 @@
+import type { RagContracts } from "../rag-contracts";
+import type { ContractGraph, ContractGraphEdge, ContractGraphNode } from "./contract-graph";
+
+export type ContractLintRuleId =
+    'unconsumed-producer'
+    | 'placeholder-default-on-prod'
+    | 'cross-lane-consumer'
+    | 'duplicate-node-id'
+    | 'dependency-cycle';
+
+export type ContractLintSeverity = 'error' | 'warning';
+
+export interface ContractLintFinding {
+    rule: ContractLintRuleId;
+    severity: ContractLintSeverity;
+    /**
+     * Construct path of the enver the finding belongs to
+     */
+    enver: string;
+    /**
+     * Construct path of the offending producer or consumer
+     */
+    node: string;
+    message: string;
+}
+
+export interface ContractLintReport {
+    findings: ContractLintFinding[];
+    errorCount: number;
+    warningCount: number;
+}
+
+export interface ContractLintOptions {
+    /**
+     * Rules switched off for all envers
+     */
+    disabledRules?: ContractLintRuleId[];
+    /**
+     * Rules switched off per enver, keyed by `<buildId>/<lane>` or the enver's construct path
+     */
+    disabledRulesPerEnver?: Record<string, ContractLintRuleId[]>;
+    /**
+     * Lanes treated as production, default ['prod'], for the consumer's and the producer's enver
+     */
+    prodLanes?: string[];
+    /**
+     * Default values considered placeholders, matched against consumer defaultIfAbsent
+     */
+    placeholderPatterns?: RegExp[];
+}
+
+export const DEFAULT_PLACEHOLDER_PATTERNS: RegExp[] = [
+    /localhost/i,
+    /127\.0\.0\.1/,
+    /^default-/i,
+    /placeholder/i,
+];
+
+const SEVERITY: Record<ContractLintRuleId, ContractLintSeverity> = {
+    'unconsumed-producer': 'warning',
+    'placeholder-default-on-prod': 'error',
+    'cross-lane-consumer': 'error',
+    'duplicate-node-id': 'error',
+    'dependency-cycle': 'error',
+};
+
+/**
+ * Lints the instantiated contracts' producer/consumer graph
+ */
+export function lintContracts(contracts: RagContracts, options: ContractLintOptions = {}): ContractLintReport {
+    return lintContractGraph(contracts.contractGraph, options);
+}
+
+export function lintContractGraph(graph: ContractGraph, options: ContractLintOptions = {}): ContractLintReport {
+    const prodLanes = options.prodLanes ?? ['prod'];
+    const placeholderPatterns = options.placeholderPatterns ?? DEFAULT_PLACEHOLDER_PATTERNS;
+
+    const byId = new Map(graph.nodes.map(n => [n.id, n]));
+    const enverOf = (n: ContractGraphNode | undefined): ContractGraphNode | undefined => {
+        while (n && n.kind != 'enver') {
+            n = n.parent ? byId.get(n.parent) : undefined;
+        }
+        return n;
+    };
+
+    const findings: ContractLintFinding[] = [];
+    const report = (rule: ContractLintRuleId, node: ContractGraphNode, message: string) => {
+        const enver = enverOf(node);
+        findings.push({rule, severity: SEVERITY[rule], enver: enver?.id ?? '', node: node.id, message});
+    };
+
+    // producers whose whole subtree has no consumer, reported at the topmost such producer
+    const consumed = new Set(graph.edges.map(e => e.producer));
+    const subtreeConsumed = (n: ContractGraphNode): boolean =>
+        consumed.has(n.id) || graph.nodes.some(c => c.parent == n.id && c.kind == 'producer' && subtreeConsumed(c));
+    graph.nodes
+        .filter(n => n.kind == 'producer' && byId.get(n.parent!)?.kind != 'producer')
+        .forEach(function visit(n: ContractGraphNode) {
+            if (!subtreeConsumed(n)) {
+                report('unconsumed-producer', n, `${n.label} has no consumers`);
+                return;
+            }
+            graph.nodes.filter(c => c.parent == n.id && c.kind == 'producer').forEach(visit);
+        });
+
+    graph.edges.forEach(e => {
+        const consumer = byId.get(e.consumer)!;
+        const consumerEnver = enverOf(consumer);
+        const producerEnver = enverOf(byId.get(e.producer));
+
+        // either side in a prod lane, envers without a lane like user-auth consume prod producers too
+        const prodLane = [consumerEnver?.lane, producerEnver?.lane].find(l => l !== undefined && prodLanes.includes(l));
+        if (e.defaultIfAbsent !== undefined && prodLane !== undefined
+            && placeholderPatterns.some(p => p.test(e.defaultIfAbsent!))) {
+            report('placeholder-default-on-prod', consumer, consumerEnver?.lane == prodLane
+                ? `${consumer.label} on ${prodLane} falls back to placeholder '${e.defaultIfAbsent}'`
+                : `${consumer.label} falls back to placeholder '${e.defaultIfAbsent}' for ${e.producer} on ${prodLane}`);
+        }
+
+        // an ephemeral lane consumes from its parent lane where it has no enver of its own
+        if (consumerEnver?.lane !== undefined && producerEnver?.lane !== undefined
+            && (consumerEnver.lane != producerEnver.lane && consumerEnver.parentLane != producerEnver.lane
+                || consumerEnver.account != producerEnver.account)) {
+            report('cross-lane-consumer', consumer,
+                `${consumer.label} (${consumerEnver.lane}/${consumerEnver.account}) consumes ${e.producer} (${producerEnver.lane}/${producerEnver.account})`);
+        }
+    });
+
+    // node ids key SSM parameters and enver_config lines, consumer ids are flat per enver
+    const seen = new Map<string, string>();
+    graph.nodes.forEach(n => {
+        const key = n.kind == 'consumer' ? `${enverOf(n)?.id}|consumer|${n.label}` : n.id;
+        const first = seen.get(key);
+        if (first !== undefined) {
+            report('duplicate-node-id', n, `${n.kind} id '${n.label}' is also used by ${first}`);
+        } else {
+            seen.set(key, n.id);
+        }
+    });
+
+    // a consumer without a default needs its producer's enver deployed first, a cycle of those never deploys
+    const dependsOn = new Map<string, Map<string, ContractGraphEdge>>();
+    graph.edges.filter(e => e.defaultIfAbsent === undefined).forEach(e => {
+        const from = enverOf(byId.get(e.consumer))?.id;
+        const to = enverOf(byId.get(e.producer))?.id;
+        if (from !== undefined && to !== undefined && from != to) {
+            const deps = dependsOn.get(from) ?? new Map<string, ContractGraphEdge>();
+            dependsOn.set(from, deps);
+            if (!deps.has(to)) {
+                deps.set(to, e);
+            }
+        }
+    });
+    const visited = new Set<string>();
+    const path: string[] = [];
+    const cycles = new Set<string>();
+    const visitEnver = (enver: string) => {
+        const at = path.indexOf(enver);
+        if (at >= 0) {
+            const cycle = path.slice(at);
+            const key = [...cycle].sort().join('|');
+            if (!cycles.has(key)) {
+                cycles.add(key);
+                const closing = dependsOn.get(cycle[cycle.length - 1])!.get(enver)!;
+                report('dependency-cycle', byId.get(closing.consumer)!,
+                    `envers wait on each other to deploy: ${[...cycle, enver].join(' → ')}`);
+            }
+            return;
+        }
+        if (visited.has(enver)) {
+            return;
+        }
+        path.push(enver);
+        dependsOn.get(enver)?.forEach((_e, producerEnver) => visitEnver(producerEnver));
+        path.pop();
+        visited.add(enver);
+    };
+    graph.nodes.filter(n => n.kind == 'enver').forEach(n => visitEnver(n.id));
+
+    const disabled = new Set(options.disabledRules ?? []);
+    const disabledFor = (f: ContractLintFinding): boolean => {
+        if (disabled.has(f.rule)) {
+            return true;
+        }
+        const enver = byId.get(f.enver);
+        const keys = enver ? [enver.id, `${enver.buildId}/${enver.lane}`] : [];
+        return keys.some(k => options.disabledRulesPerEnver?.[k]?.includes(f.rule));
+    };
+
+    const enabled = findings.filter(f => !disabledFor(f));
+    return {
+        findings: enabled,
+        errorCount: enabled.filter(f => f.severity == 'error').length,
+        warningCount: enabled.filter(f => f.severity == 'warning').length,
+    };
+}
+
+export function formatContractLintReport(report: ContractLintReport): string {
+    return report.findings
+        .map(f => `${f.severity} [${f.rule}] ${f.node}: ${f.message}`)
+        .join('\n');
+}
+
+/**
+ * Jest matchers, register with `expect.extend(contractLintMatchers)`:
+ * `expect(ragContracts).toPassContractLint({disabledRulesPerEnver: {...}})`
+ * fails on lint errors, warnings are allowed
+ */
+export const contractLintMatchers = {
+    toPassContractLint(received: RagContracts, options?: ContractLintOptions) {
+        const report = lintContracts(received, options);
+        const pass = report.errorCount == 0;
+        return {
+            pass,
+            message: () => pass
+                ? `expected contract lint errors, found none`
+                : `expected no contract lint errors, found ${report.errorCount}:\n${formatContractLintReport({
+                    ...report,
+                    findings: report.findings.filter(f => f.severity == 'error')
+                })}`
+        };
+    }
+};
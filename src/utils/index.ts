@@ -1,2 +1,131 @@
-export { SchemaTypeGenerator } from './schema-type-generator';
-export { deploySchema } from './schema-deployment';
\ No newline at end of file
+export { SchemaTypeGenerator, AwsSchemaTypeSource, OfflineSchemaTypeSource } from './schema-type-generator';
+export type { SchemaTypeSource } from './schema-type-generator';
+export { deploySchema, deployCatalogSchemas } from './schema-deployment';
+export type { DeploySchemaOptions } from './schema-deployment';
+export {
+    checkSchemaCompatibility,
+    incompatibleChanges,
+    formatSchemaCompatibilityReport
+} from './schema-compatibility';
+export type {
+    SchemaCompatibility,
+    SchemaCompatibilityLevel,
+    SchemaChangeKind,
+    SchemaFieldChange,
+    SchemaCompatibilityReport
+} from './schema-compatibility';
+export {
+    InMemorySchemaStore,
+    LocalDirSchemaStore,
+    formatSchemaUrl,
+    parseSchemaUrl
+} from './schema-store';
+export type { SchemaStore, SchemaPublishRequest, SchemaUrl } from './schema-store';
+export { S3SchemaStore } from './s3-schema-store';
+export {
+    buildContractGraph,
+    renderContractGraph,
+    contractGraphToJson,
+    contractGraphToMermaid,
+    contractGraphToDot
+} from './contract-graph';
+export type {
+    ContractGraph,
+    ContractGraphNode,
+    ContractGraphEdge,
+    ContractGraphNodeKind,
+    ContractGraphFormat
+} from './contract-graph';
+export {
+    lintContracts,
+    lintContractGraph,
+    formatContractLintReport,
+    contractLintMatchers,
+    DEFAULT_PLACEHOLDER_PATTERNS
+} from './contract-lint';
+export type {
+    ContractLintRuleId,
+    ContractLintSeverity,
+    ContractLintFinding,
+    ContractLintReport,
+    ContractLintOptions
+} from './contract-lint';
+export { localStandInValue, localEnverConfig } from './local-stand-ins';
+export { PayloadValidator, PayloadValidationError, formatPayloadValidationReport } from './payload-validator';
+export type {
+    PayloadValidationMode,
+    PayloadValidationIssue,
+    PayloadValidationReport,
+    PayloadValidatorOptions
+} from './payload-validator';
+export { PipelineStatusClient, pipelineStatusEndpoints } from './pipeline-status-client';
+export type {
+    PipelineStatusEndpoints,
+    PipelineStatusFetch,
+    PipelineStatusClientOptions
+} from './pipeline-status-client';
+export {
+    buildOpenApiDocument,
+    buildOpenApiDocuments,
+    openApiRoutes,
+    OPENAPI_JWT_SCHEME
+} from './openapi';
+export type {
+    OpenApiOptions,
+    OpenApiSchemaObject,
+    OpenApiSchemaRef,
+    OpenApiParameter,
+    OpenApiMediaType,
+    OpenApiRequestBody,
+    OpenApiResponse,
+    OpenApiSecurityRequirement,
+    OpenApiOperation,
+    OpenApiPathItem,
+    OpenApiSecurityScheme,
+    OpenApiDocument
+} from './openapi';
+export { buildAsyncApiDocument, S3_METADATA_HEADERS } from './asyncapi';
+export type {
+    S3MetadataKey,
+    S3MetadataHeader,
+    AsyncApiSchemaObject,
+    AsyncApiRef,
+    AsyncApiChannel,
+    AsyncApiOperation,
+    AsyncApiMessage,
+    AsyncApiDocument
+} from './asyncapi';
+export {
+    producerChildren,
+    producerChildrenProps,
+    producerSchema,
+    producerValueKind,
+    producerSchemaSlots,
+    producerRouteSlots,
+    producerBucketSlots,
+    producerChildrenLayout,
+    producerChildrenSnapshot,
+    compareProducerChildrenSnapshots
+} from './producer-children';
+export type {
+    ProducerChildSpec,
+    ProducerChildSpecs,
+    ProducerChildName,
+    ProducerChildren,
+    ProducerChildProps,
+    ProducerChildLayout,
+    ProducerChildrenSnapshot,
+    ProducerChildrenChange,
+    ProducerSchemaSlot,
+    ProducerRouteMethod,
+    ProducerRoute,
+    ProducerRoutePayload,
+    ProducerRoutePayloadSlot,
+    ProducerRouteSlot,
+    ProducerOwnSpec,
+    ProducerBucketObjects,
+    ProducerBucketSlot,
+    ProducerValueKind
+} from './producer-children';
+export { SchemaCrossRefConsumer } from './schema-cross-refs';
+export type { SchemaProducer, ProducerSchema, SchemaPayload } from './schema-cross-refs';
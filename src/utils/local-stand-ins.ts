@@ -0,0 +1,53 @@
+import * as path from 'path';
+import {
+    AnyOdmdEnVer,
+    OdmdCrossRefConsumer,
+    OdmdCrossRefProducer
+} from "@ondemandenv/contracts-lib-base";
+import type { RagContracts } from "../rag-contracts";
+import type { RagLocalStandIns } from "../types";
+import { producerValueKind } from './producer-children';
+import { formatSchemaUrl, LOCAL_SCHEMA_BUCKET, schemaObjectKey } from './schema-store';
+
+/**
+ * Local value of a producer by the kind of value it is declared with:
+ * buckets → file://<bucketDir>/<buildId>/<producer path>,
+ * schemas → the url deploySchema publishes to a `new LocalDirSchemaStore(bucketDir)` at, version `latest`,
+ * everything else → <httpEndpoint>/<buildId>/<producer path>
+ */
+export function localStandInValue(standIns: RagLocalStandIns, producer: OdmdCrossRefProducer<AnyOdmdEnVer>): string {
+    const enver = producer.owner;
+    const relPath = producer.node.path.substring(enver.node.path.length + 1);
+    const buildId = enver.owner.buildId;
+
+    switch (producerValueKind(producer)) {
+        case 'bucket':
+            return 'file://' + path.resolve(standIns.bucketDir, buildId, relPath);
+        case 'schema':
+            return formatSchemaUrl({
+                bucket: LOCAL_SCHEMA_BUCKET,
+                key: schemaObjectKey(enver.targetAWSAccountID, producer),
+                version: 'latest'
+            });
+        default:
+            return `${standIns.httpEndpoint.replace(/\/+$/, '')}/${buildId}/${relPath}`;
+    }
+}
+
+/**
+ * enver_config lines (`<consumerId>:<value>`) of a local lane enver, the offline counterpart of
+ * the /odmd-{buildId}/{rev}/enver_config SSM parameter
+ */
+export function localEnverConfig(contracts: RagContracts, enver: AnyOdmdEnVer): string {
+    const laneName = contracts.laneResolver.laneOf(enver);
+    const standIns = laneName !== undefined ? contracts.enverTopology[laneName].localStandIns : undefined;
+    if (!standIns) {
+        throw new Error(`${enver.node.path} is not in a local lane`);
+    }
+
+    return enver.node.findAll()
+        .filter(c => c instanceof OdmdCrossRefConsumer)
+        .map(c => c as OdmdCrossRefConsumer<AnyOdmdEnVer, AnyOdmdEnVer>)
+        .map(c => `${c.node.id}:${localStandInValue(standIns, c.producer)}`)
+        .join('\n');
+}
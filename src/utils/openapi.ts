@@ -0,0 +1,207 @@
+import type {ZodObject} from 'zod';
+import {zodToJsonSchema} from 'zod-to-json-schema';
+import type {AnyOdmdEnVer, OdmdCrossRefConsumer} from "@ondemandenv/contracts-lib-base";
+import type {RagContracts} from "../rag-contracts";
+import {ProducerRouteMethod, ProducerRoutePayloadSlot, ProducerRouteSlot, producerRouteSlots} from './producer-children';
+
+export interface OpenApiOptions {
+    /**
+     * Base urls of the API, the endpoint producer's value once deployed
+     */
+    servers?: string[];
+    /**
+     * The enver's enver_config lines, when given the security scheme points at the provider's issuer
+     */
+    enverConfigLines?: string[];
+}
+
+/**
+ * A JSON Schema as zod-to-json-schema emits it, without `$schema`
+ */
+export type OpenApiSchemaObject = Record<string, unknown>;
+
+export interface OpenApiSchemaRef {
+    $ref: string;
+}
+
+export interface OpenApiParameter {
+    name: string;
+    in: 'path';
+    required: true;
+    schema: { type: 'string' };
+}
+
+export interface OpenApiMediaType {
+    schema: OpenApiSchemaRef;
+}
+
+export interface OpenApiRequestBody {
+    required: boolean;
+    content: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiResponse {
+    description: string;
+    content?: Record<string, OpenApiMediaType>;
+}
+
+/**
+ * Security scheme names to required scopes, empty for none
+ */
+export type OpenApiSecurityRequirement = Record<string, string[]>;
+
+export interface OpenApiOperation {
+    operationId: string;
+    summary: string;
+    parameters?: OpenApiParameter[];
+    requestBody?: OpenApiRequestBody;
+    responses: Record<string, OpenApiResponse>;
+    security?: OpenApiSecurityRequirement[];
+    /**
+     * Construct path of the producer whose value is the API's base url
+     */
+    'x-odmd-producer': string;
+}
+
+export type OpenApiPathItem = Partial<Record<ProducerRouteMethod, OpenApiOperation>>;
+
+export type OpenApiSecurityScheme = {
+    type: 'http';
+    scheme: 'bearer';
+    bearerFormat: 'JWT';
+    description: string;
+} | {
+    type: 'openIdConnect';
+    openIdConnectUrl: string;
+    description: string;
+};
+
+/**
+ * OpenAPI 3.1 document of an enver's HTTP APIs
+ */
+export interface OpenApiDocument {
+    openapi: '3.1.0';
+    info: { title: string, version: string };
+    servers?: { url: string }[];
+    paths: Record<string, OpenApiPathItem>;
+    components: {
+        schemas: Record<string, OpenApiSchemaObject>;
+        securitySchemes: Record<string, OpenApiSecurityScheme>;
+    };
+    security: OpenApiSecurityRequirement[];
+}
+
+/**
+ * Name of the JWT security scheme in every document
+ */
+export const OPENAPI_JWT_SCHEME = 'userAuthJwt';
+
+/**
+ * Routes the enver's producers declare, empty for envers without HTTP API producers
+ */
+export function openApiRoutes(enver: AnyOdmdEnVer): ProducerRouteSlot[] {
+    return producerRouteSlots(enver);
+}
+
+/**
+ * Combines the enver's HTTP API producers with the schemas of their schema children,
+ * secured by the ID token of the user-auth provider
+ */
+export function buildOpenApiDocument(enver: AnyOdmdEnVer, options: OpenApiOptions = {}): OpenApiDocument {
+    const buildId = enver.owner.buildId;
+    const routes = openApiRoutes(enver);
+    if (routes.length == 0) {
+        throw new Error(`${buildId} has no HTTP API producers`);
+    }
+
+    const schemas: OpenApiDocument['components']['schemas'] = {};
+    const schemaRef = (payload: ProducerRoutePayloadSlot): OpenApiSchemaRef => {
+        if (!schemas[payload.component]) {
+            schemas[payload.component] = toOpenApiSchema(payload.schema);
+        }
+        return {$ref: `#/components/schemas/${payload.component}`};
+    };
+
+    const paths: OpenApiDocument['paths'] = {};
+    routes.forEach(({route, endpoint, request, response}) => {
+        const parameters = Array.from(route.path.matchAll(/{([^}]+)}/g)).map((m): OpenApiParameter => ({
+            name: m[1], in: 'path', required: true, schema: {type: 'string'}
+        }));
+        const requestBody: OpenApiRequestBody | undefined = request
+            ? {required: true, content: {'application/json': {schema: schemaRef(request)}}}
+            : undefined;
+
+        const responses: OpenApiOperation['responses'] = response
+            ? {'200': {description: 'OK', content: {'application/json': {schema: schemaRef(response)}}}}
+            : {'200': {description: 'OK'}};
+        if (parameters.length > 0) {
+            responses['404'] = {description: 'Not found'};
+        }
+        if (!route.public) {
+            responses['401'] = {description: 'Missing or invalid JWT'};
+        }
+
+        const pathItem = paths[route.path] ?? {};
+        pathItem[route.method] = {
+            operationId: route.operationId,
+            summary: route.summary,
+            ...(parameters.length > 0 ? {parameters} : {}),
+            ...(requestBody ? {requestBody} : {}),
+            responses,
+            ...(route.public ? {security: []} : {}),
+            'x-odmd-producer': endpoint.node.path
+        };
+        paths[route.path] = pathItem;
+    });
+
+    return {
+        openapi: '3.1.0',
+        info: {title: `${buildId} API`, version: enver.targetRevision.toPathPartStr()},
+        ...(options.servers ? {servers: options.servers.map(url => ({url}))} : {}),
+        paths,
+        components: {schemas, securitySchemes: {[OPENAPI_JWT_SCHEME]: jwtSecurityScheme(enver, options.enverConfigLines)}},
+        security: [{[OPENAPI_JWT_SCHEME]: []}]
+    };
+}
+
+/**
+ * OpenAPI documents of every enver with HTTP API producers, keyed by enver construct path
+ */
+export function buildOpenApiDocuments(contracts: RagContracts): Record<string, OpenApiDocument> {
+    const documents: Record<string, OpenApiDocument> = {};
+    contracts.odmdBuilds
+        .flatMap(build => build.envers as AnyOdmdEnVer[])
+        .filter(enver => openApiRoutes(enver).length > 0)
+        .forEach(enver => {
+            documents[enver.node.path] = buildOpenApiDocument(enver);
+        });
+    return documents;
+}
+
+function toOpenApiSchema(schema: ZodObject<any>): OpenApiSchemaObject {
+    const {$schema, ...jsonSchema}: OpenApiSchemaObject = zodToJsonSchema(schema, {$refStrategy: 'none'});
+    return jsonSchema;
+}
+
+/**
+ * Bearer JWT issued by the user-auth provider, an OpenID Connect scheme once the enver's
+ * authProviderName consumer resolves to the provider (`cognito-idp.<region>.amazonaws.com/<pool id>`)
+ */
+function jwtSecurityScheme(enver: AnyOdmdEnVer, enverConfigLines?: string[]): OpenApiSecurityScheme {
+    const authProviderName = (enver as { authProviderName?: OdmdCrossRefConsumer<AnyOdmdEnVer, AnyOdmdEnVer> }).authProviderName;
+    const line = authProviderName && enverConfigLines?.find(l => l.startsWith(authProviderName.node.id + ':'));
+    if (line) {
+        const issuer = `https://${line.substring((authProviderName.node.id + ':').length)}`;
+        return {
+            type: 'openIdConnect',
+            openIdConnectUrl: `${issuer}/.well-known/openid-configuration`,
+            description: `ID token issued by ${issuer}`
+        };
+    }
+    return {
+        type: 'http',
+        scheme: 'bearer',
+        bearerFormat: 'JWT',
+        description: 'ID token issued by the user-auth provider'
+    };
+}
@@ -0,0 +1,385 @@
+import {z, ZodTypeAny} from 'zod';
+import type {AnyOdmdEnVer, OdmdCrossRefConsumer} from "@ondemandenv/contracts-lib-base";
+import {parseSchemaUrl} from './schema-store';
+import {AwsSchemaTypeSource, SchemaTypeSource} from './schema-type-generator';
+
+/**
+ * strict throws on an invalid payload, warn reports it and lets the payload through
+ */
+export type PayloadValidationMode = 'strict' | 'warn';
+
+export interface PayloadValidationIssue {
+    /**
+     * Dotted path of the offending field, empty for the payload itself
+     */
+    path: string;
+    code: string;
+    message: string;
+}
+
+export interface PayloadValidationReport {
+    consumerId: string;
+    schemaUrl: string;
+    version: string;
+    valid: boolean;
+    issues: PayloadValidationIssue[];
+}
+
+export interface PayloadValidatorOptions {
+    /**
+     * Defaults to strict
+     */
+    mode?: PayloadValidationMode;
+    /**
+     * Receives invalid payload reports in warn mode, defaults to console.warn
+     */
+    onWarning?: (report: PayloadValidationReport) => void;
+}
+
+export function formatPayloadValidationReport(report: PayloadValidationReport): string {
+    return [`${report.consumerId} payload does not match ${report.schemaUrl}:`]
+        .concat(report.issues.map(i => `  ${i.path || '<payload>'} [${i.code}]: ${i.message}`))
+        .join('\n');
+}
+
+/**
+ * Thrown in strict mode on an invalid payload, the message is the formatted report
+ */
+export class PayloadValidationError extends Error {
+    constructor(readonly report: PayloadValidationReport) {
+        super(formatPayloadValidationReport(report));
+        this.name = 'PayloadValidationError';
+    }
+}
+
+/**
+ * Validates payloads against the schema a consumer's enver_config line points to,
+ * `s3://bucket/key@version` as published by deploySchema.
+ * Schemas are compiled once per schema url, a redeployed producer is picked up after refresh().
+ */
+export class PayloadValidator<T extends AnyOdmdEnVer> {
+    private readonly mode: PayloadValidationMode;
+    private readonly onWarning: (report: PayloadValidationReport) => void;
+    private readonly source: SchemaTypeSource;
+    private readonly compiledByUrl = new Map<string, Promise<ZodTypeAny>>();
+    private enverConfigLines?: Promise<string[]>;
+
+    constructor(myEnver: T, options: PayloadValidatorOptions = {}, source?: SchemaTypeSource) {
+        this.source = source ?? new AwsSchemaTypeSource(myEnver);
+        this.mode = options.mode ?? 'strict';
+        this.onWarning = options.onWarning ?? (report => console.warn(formatPayloadValidationReport(report)));
+    }
+
+    /**
+     * Validates the payload, in strict mode an invalid payload throws a PayloadValidationError
+     */
+    async validate(consumer: OdmdCrossRefConsumer<T, AnyOdmdEnVer>, payload: unknown): Promise<PayloadValidationReport> {
+        const schemaUrl = await this.schemaUrl(consumer);
+        const {version} = parseSchemaUrl(schemaUrl);
+        const result = (await this.compiled(schemaUrl)).safeParse(payload);
+
+        const report: PayloadValidationReport = {
+            consumerId: consumer.node.id,
+            schemaUrl,
+            version,
+            valid: result.success,
+            issues: result.success ? [] : result.error.issues.map(i => ({
+                path: i.path.join('.'),
+                code: i.code,
+                message: i.message
+            }))
+        };
+
+        if (!report.valid) {
+            if (this.mode == 'strict') {
+                throw new PayloadValidationError(report);
+            }
+            this.onWarning(report);
+        }
+        return report;
+    }
+
+    /**
+     * The consumer's current schema url from enver_config
+     */
+    async schemaUrl(consumer: OdmdCrossRefConsumer<T, AnyOdmdEnVer>): Promise<string> {
+        const lines = await this.getEnverConfigLines();
+        const line = lines.find(l => l.startsWith(consumer.node.id + ':'));
+        if (!line) {
+            throw new Error(`No enver_config line for consumer ${consumer.node.id}`);
+        }
+        return line.substring((consumer.node.id + ':').length);
+    }
+
+    /**
+     * Re-reads enver_config on the next validate, compiled schemas are kept
+     */
+    refresh(): void {
+        this.enverConfigLines = undefined;
+    }
+
+    private getEnverConfigLines(): Promise<string[]> {
+        if (!this.enverConfigLines) {
+            this.enverConfigLines = this.source.enverConfigLines();
+            this.enverConfigLines.catch(() => {
+                this.enverConfigLines = undefined;
+            });
+        }
+        return this.enverConfigLines;
+    }
+
+    private compiled(schemaUrl: string): Promise<ZodTypeAny> {
+        let compiled = this.compiledByUrl.get(schemaUrl);
+        if (!compiled) {
+            compiled = this.source.fetchSchema(schemaUrl).then(jsonSchemaStr => compileJsonSchema(JSON.parse(jsonSchemaStr)));
+            compiled.catch(() => this.compiledByUrl.delete(schemaUrl));
+            this.compiledByUrl.set(schemaUrl, compiled);
+        }
+        return compiled;
+    }
+}
+
+/**
+ * The JSON Schema keywords deploySchema's schemas use, a schema with others is rejected
+ * rather than validated looser than published
+ */
+interface JsonSchema {
+    $schema?: string;
+    $ref?: string;
+    definitions?: Record<string, JsonSchemaDefinition>;
+    $defs?: Record<string, JsonSchemaDefinition>;
+    title?: string;
+    description?: string;
+    default?: unknown;
+    examples?: unknown[];
+    type?: JsonSchemaType | JsonSchemaType[];
+    properties?: Record<string, JsonSchemaDefinition>;
+    required?: string[];
+    additionalProperties?: JsonSchemaDefinition;
+    items?: JsonSchemaDefinition | JsonSchemaDefinition[];
+    minItems?: number;
+    maxItems?: number;
+    enum?: unknown[];
+    const?: unknown;
+    anyOf?: JsonSchemaDefinition[];
+    oneOf?: JsonSchemaDefinition[];
+    allOf?: JsonSchemaDefinition[];
+    format?: string;
+    pattern?: string;
+    minLength?: number;
+    maxLength?: number;
+    minimum?: number;
+    maximum?: number;
+    exclusiveMinimum?: number;
+    exclusiveMaximum?: number;
+    multipleOf?: number;
+}
+
+type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+type JsonSchemaDefinition = JsonSchema | boolean;
+
+const SUPPORTED_KEYWORDS = new Set<string>([
+    '$schema', '$ref', 'definitions', '$defs', 'title', 'description', 'default', 'examples',
+    'type', 'properties', 'required', 'additionalProperties', 'items', 'minItems', 'maxItems',
+    'enum', 'const', 'anyOf', 'oneOf', 'allOf',
+    'format', 'pattern', 'minLength', 'maxLength',
+    'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum', 'multipleOf'
+] satisfies (keyof JsonSchema)[]);
+
+/**
+ * Zod schema of a published JSON schema, built keyword by keyword.
+ * `$ref` pointers resolve against the root, lazily so recursive schemas terminate.
+ */
+function compileJsonSchema(root: JsonSchemaDefinition): ZodTypeAny {
+    const refs = new Map<string, ZodTypeAny>();
+
+    const resolve = (ref: string): JsonSchemaDefinition => {
+        if (!ref.startsWith('#')) {
+            throw new Error(`Only local $ref is supported: ${ref}`);
+        }
+        return ref.substring(1).split('/').filter(part => part != '')
+            .map(part => decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~'))
+            .reduce<unknown>((at, part) => {
+                if (typeof at != 'object' || at === null || !(part in at)) {
+                    throw new Error(`Unresolvable $ref: ${ref}`);
+                }
+                return (at as Record<string, unknown>)[part];
+            }, root) as JsonSchemaDefinition;
+    };
+
+    const compile = (schema: JsonSchemaDefinition): ZodTypeAny => {
+        if (schema === true) {
+            return z.unknown();
+        }
+        if (schema === false) {
+            return z.never();
+        }
+        const unsupported = Object.keys(schema).filter(keyword => !SUPPORTED_KEYWORDS.has(keyword));
+        if (unsupported.length > 0) {
+            throw new Error(`Unsupported JSON Schema keywords: ${unsupported.join(', ')}`);
+        }
+        if (schema.$ref !== undefined) {
+            const ref = schema.$ref;
+            let compiled = refs.get(ref);
+            if (!compiled) {
+                compiled = z.lazy(() => compile(resolve(ref)));
+                refs.set(ref, compiled);
+            }
+            return compiled;
+        }
+        const combined = [
+            ...(schema.allOf ?? []).map(compile),
+            ...(schema.anyOf ? [union(schema.anyOf.map(compile))] : []),
+            ...(schema.oneOf ? [exactlyOne(schema.oneOf.map(compile))] : [])
+        ];
+        if (combined.length > 0) {
+            // sibling keywords such as type still apply next to the combinators
+            const {allOf, anyOf, oneOf, ...rest} = schema;
+            return combined.reduce((a, b) => z.intersection(a, b), compile(rest));
+        }
+        if (schema.const !== undefined) {
+            return literal(schema.const);
+        }
+        if (schema.enum) {
+            return schema.enum.every((v): v is string => typeof v == 'string') && schema.enum.length > 0
+                ? z.enum(schema.enum as [string, ...string[]])
+                : union(schema.enum.map(literal));
+        }
+        if (Array.isArray(schema.type)) {
+            return union(schema.type.map(type => compileType(schema, type)));
+        }
+        return schema.type ? compileType(schema, schema.type) : z.unknown();
+    };
+
+    const compileType = (schema: JsonSchema, type: JsonSchemaType): ZodTypeAny => {
+        switch (type) {
+            case 'object':
+                return compileObject(schema);
+            case 'array':
+                return compileArray(schema);
+            case 'string':
+                return compileString(schema);
+            case 'number':
+            case 'integer':
+                return compileNumber(schema, type == 'integer');
+            case 'boolean':
+                return z.boolean();
+            case 'null':
+                return z.null();
+        }
+    };
+
+    const compileObject = (schema: JsonSchema): ZodTypeAny => {
+        const {properties, required = [], additionalProperties} = schema;
+        if (!properties && typeof additionalProperties == 'object') {
+            return z.record(z.string(), compile(additionalProperties));
+        }
+        const shape: Record<string, ZodTypeAny> = {};
+        Object.entries(properties ?? {}).forEach(([name, property]) => {
+            const compiled = compile(property);
+            shape[name] = required.includes(name) ? compiled : compiled.optional();
+        });
+        const object = z.object(shape);
+        if (additionalProperties === false) {
+            return object.strict();
+        }
+        return typeof additionalProperties == 'object'
+            ? object.catchall(compile(additionalProperties))
+            : object.passthrough();
+    };
+
+    const compileArray = (schema: JsonSchema): ZodTypeAny => {
+        if (Array.isArray(schema.items)) {
+            return z.tuple(schema.items.map(compile) as [] | [ZodTypeAny, ...ZodTypeAny[]]);
+        }
+        let array = z.array(schema.items !== undefined ? compile(schema.items) : z.unknown());
+        if (schema.minItems !== undefined) {
+            array = array.min(schema.minItems);
+        }
+        if (schema.maxItems !== undefined) {
+            array = array.max(schema.maxItems);
+        }
+        return array;
+    };
+
+    return compile(root);
+}
+
+function compileString(schema: JsonSchema): ZodTypeAny {
+    let string = z.string();
+    switch (schema.format) {
+        case 'date-time':
+            string = string.datetime({offset: true});
+            break;
+        case 'email':
+            string = string.email();
+            break;
+        case 'uri':
+            string = string.url();
+            break;
+        case 'uuid':
+            string = string.uuid();
+            break;
+    }
+    if (schema.pattern !== undefined) {
+        string = string.regex(new RegExp(schema.pattern));
+    }
+    if (schema.minLength !== undefined) {
+        string = string.min(schema.minLength);
+    }
+    if (schema.maxLength !== undefined) {
+        string = string.max(schema.maxLength);
+    }
+    return string;
+}
+
+function compileNumber(schema: JsonSchema, integer: boolean): ZodTypeAny {
+    let number = integer ? z.number().int() : z.number();
+    if (schema.minimum !== undefined) {
+        number = number.gte(schema.minimum);
+    }
+    if (schema.exclusiveMinimum !== undefined) {
+        number = number.gt(schema.exclusiveMinimum);
+    }
+    if (schema.maximum !== undefined) {
+        number = number.lte(schema.maximum);
+    }
+    if (schema.exclusiveMaximum !== undefined) {
+        number = number.lt(schema.exclusiveMaximum);
+    }
+    if (schema.multipleOf !== undefined) {
+        number = number.multipleOf(schema.multipleOf);
+    }
+    return number;
+}
+
+function literal(value: unknown): ZodTypeAny {
+    return value === null || ['string', 'number', 'boolean'].includes(typeof value)
+        ? z.literal(value as z.Primitive)
+        : z.unknown().refine(v => JSON.stringify(v) == JSON.stringify(value), `Expected ${JSON.stringify(value)}`);
+}
+
+function union(options: ZodTypeAny[]): ZodTypeAny {
+    if (options.length == 0) {
+        return z.never();
+    }
+    return options.length == 1 ? options[0] : z.union(options as [ZodTypeAny, ZodTypeAny, ...ZodTypeAny[]]);
+}
+
+/**
+ * oneOf, valid when exactly one of the options matches
+ */
+function exactlyOne(options: ZodTypeAny[]): ZodTypeAny {
+    const anyOf = union(options);
+    return z.unknown().superRefine((value, ctx) => {
+        const result = anyOf.safeParse(value);
+        if (!result.success) {
+            result.error.issues.forEach(issue => ctx.addIssue(issue));
+            return;
+        }
+        const matching = options.filter(option => option.safeParse(value).success).length;
+        if (matching > 1) {
+            ctx.addIssue({code: z.ZodIssueCode.custom, message: `Matches ${matching} oneOf options, expected exactly one`});
+        }
+    });
+}
@@ -0,0 +1,120 @@
+import type {RagDocumentIngestionEnver} from "../services/document-ingestion";
+import {DocumentStage, DocumentStatusSchema} from "../schemas/document-status";
+import {overallPipelineState, PipelineStageStatus, PipelineStatus} from "../schemas/pipeline-status";
+
+/**
+ * Status API base URLs of the stages after ingestion
+ */
+export interface PipelineStatusEndpoints {
+    processing: string;
+    embedding: string;
+    vectorStorage: string;
+}
+
+/**
+ * Status API endpoints from the ingestion enver's enver_config lines (`<consumerId>:<value>`)
+ */
+export function pipelineStatusEndpoints(enver: RagDocumentIngestionEnver, enverConfigLines: string[]): PipelineStatusEndpoints {
+    const value = (consumerId: string) => {
+        const line = enverConfigLines.find(l => l.startsWith(consumerId + ':'));
+        if (!line) {
+            throw new Error(`No enver_config line for consumer ${consumerId}`);
+        }
+        return line.substring((consumerId + ':').length);
+    };
+
+    return {
+        processing: value(enver.processingStatusApiEndpoint.node.id),
+        embedding: value(enver.embeddingStatusApiEndpoint.node.id),
+        vectorStorage: value(enver.vectorStorageStatusApiEndpoint.node.id)
+    };
+}
+
+/**
+ * The part of the fetch API the client uses
+ */
+export type PipelineStatusFetch = (url: string, init: { headers: Record<string, string> }) => Promise<{
+    ok: boolean;
+    status: number;
+    json(): Promise<unknown>;
+}>;
+
+export interface PipelineStatusClientOptions {
+    /**
+     * Defaults to the global fetch
+     */
+    fetch?: PipelineStatusFetch;
+    /**
+     * JWT sent as bearer token to every status API
+     */
+    authToken?: () => string | Promise<string>;
+}
+
+const STAGES: [keyof PipelineStatusEndpoints, DocumentStage][] = [
+    ['processing', 'processing'],
+    ['embedding', 'embedding'],
+    ['vectorStorage', 'vector-storage']
+];
+
+/**
+ * Queries every stage's `/status/{docId}` and merges the answers into one PipelineStatus.
+ * A stage answering 404 hasn't seen the document yet and is pending, any other failure makes it unknown.
+ */
+export class PipelineStatusClient {
+    private readonly fetch: PipelineStatusFetch;
+
+    constructor(private readonly endpoints: PipelineStatusEndpoints, private readonly options: PipelineStatusClientOptions = {}) {
+        this.fetch = options.fetch ?? ((url, init) => fetch(url, init));
+    }
+
+    async getStatus(documentId: string): Promise<PipelineStatus> {
+        const headers: Record<string, string> = {accept: 'application/json'};
+        if (this.options.authToken) {
+            headers.authorization = `Bearer ${await this.options.authToken()}`;
+        }
+
+        const stages = await Promise.all(STAGES.map(([endpoint, stage]) =>
+            this.getStageStatus(this.endpoints[endpoint], stage, documentId, headers)));
+
+        const updatedAt = stages.map(s => s.updatedAt).filter((t): t is string => t !== undefined).sort().pop();
+        return {
+            documentId,
+            state: overallPipelineState(stages),
+            stages,
+            ...(updatedAt !== undefined ? {updatedAt} : {})
+        };
+    }
+
+    private async getStageStatus(
+        endpoint: string,
+        stage: DocumentStage,
+        documentId: string,
+        headers: Record<string, string>
+    ): Promise<PipelineStageStatus> {
+        const url = `${endpoint.replace(/\/+$/, '')}/status/${encodeURIComponent(documentId)}`;
+        try {
+            const response = await this.fetch(url, {headers});
+            if (response.status == 404) {
+                return {stage, state: 'pending'};
+            }
+            if (!response.ok) {
+                return {stage, state: 'unknown', error: `${url} answered ${response.status}`};
+            }
+
+            const status = DocumentStatusSchema.parse(await response.json());
+            const metadata = status.metadata ?? {};
+            return {
+                stage,
+                state: status.status,
+                ...(status.startedAt !== undefined ? {startedAt: status.startedAt} : {}),
+                updatedAt: status.timestamp,
+                ...(metadata.errorMessage !== undefined ? {error: metadata.errorMessage} : {}),
+                ...(metadata.chunkCount !== undefined ? {chunkCount: metadata.chunkCount} : {}),
+                ...(metadata.embeddingCount !== undefined ? {embeddingCount: metadata.embeddingCount} : {}),
+                ...(metadata.vectorCount !== undefined ? {vectorCount: metadata.vectorCount} : {})
+            };
+        } catch (e) {
+            return {stage, state: 'unknown', error: `${url}: ${e instanceof Error ? e.message : String(e)}`};
+        }
+    }
+}
@@ -0,0 +1,385 @@
+import type { ZodObject } from "zod";
+import type { AnyOdmdEnVer, OdmdCrossRefProducer } from "@ondemandenv/contracts-lib-base";
+import type { RagContracts } from "../rag-contracts";
+import type { SchemaProducer } from "./schema-cross-refs";
+import type { S3MetadataKey } from "./asyncapi";
+
+export interface ProducerChildSpec {
+    pathPart: string;
+    s3artifact?: boolean;
+    /**
+     * Payload schema of a schema slot, types the child as SchemaProducer
+     */
+    schema?: ZodObject<any>;
+    /**
+     * HTTP operations served under the child's value, an API base url
+     */
+    routes?: ProducerRoute[];
+    /**
+     * Objects in the child's value, a bucket whose object events carry data to the next stage
+     */
+    objects?: ProducerBucketObjects;
+    /**
+     * The child's value is a bucket name, for buckets without `objects`
+     */
+    bucket?: boolean;
+    children?: ProducerChildSpecs;
+}
+
+/**
+ * What a producer declares about its own value, as ProducerChildSpec does for a child
+ */
+export type ProducerOwnSpec = Pick<ProducerChildSpec, 'routes' | 'objects' | 'bucket'>;
+
+/**
+ * What a producer's value is by its declaration: a bucket name (`objects` or `bucket`),
+ * an API base url (`routes`) or a published schema url (`schema`)
+ */
+export type ProducerValueKind = 'bucket' | 'api' | 'schema';
+
+export type ProducerRouteMethod = 'get' | 'post';
+
+/**
+ * An operation of an HTTP API producer, its payloads are schema children of the same producer
+ */
+export interface ProducerRoute {
+    method: ProducerRouteMethod;
+    /**
+     * Path pattern under the base url, e.g. '/status/{docId}'
+     */
+    path: string;
+    operationId: string;
+    summary: string;
+    request?: ProducerRoutePayload;
+    response?: ProducerRoutePayload;
+    /**
+     * Answered without a JWT, e.g. health checks
+     */
+    public?: boolean;
+}
+
+/**
+ * Objects of a bucket producer, their body and metadata are schema children of the same producer
+ */
+export interface ProducerBucketObjects {
+    /**
+     * Channel id the objects are documented under, e.g. 'processedContent'
+     */
+    channel: string;
+    description: string;
+    contentType: string;
+    /**
+     * Schema child the object bodies are published from, omitted for files stored as uploaded
+     */
+    payload?: string;
+    /**
+     * Schema child the object metadata is published from
+     */
+    metadata?: string;
+    /**
+     * Metadata keys the stages exchange status through
+     */
+    statusMetadata?: S3MetadataKey[];
+}
+
+export interface ProducerRoutePayload {
+    /**
+     * Name the schema is documented under, e.g. 'DocumentStatus'
+     */
+    component: string;
+    /**
+     * Accessor name of the schema child
+     */
+    child: string;
+}
+
+/**
+ * Producer children keyed by accessor name, key order is the child's position.
+ * Names are unique across nesting levels.
+ */
+export type ProducerChildSpecs = Record<string, ProducerChildSpec>;
+
+export type ProducerChildName<C extends ProducerChildSpecs> = {
+    [K in keyof C & string]: K | (C[K] extends { children: infer N extends ProducerChildSpecs } ? ProducerChildName<N> : never)
+}[keyof C & string];
+
+type ProducerChildEntry<C extends ProducerChildSpecs> = {
+    [K in keyof C & string]: { name: K, spec: C[K] }
+        | (C[K] extends { children: infer N extends ProducerChildSpecs } ? ProducerChildEntry<N> : never)
+}[keyof C & string];
+
+export type ProducerChildren<C extends ProducerChildSpecs, T extends AnyOdmdEnVer> = {
+    readonly [E in ProducerChildEntry<C> as E['name']]: E['spec'] extends { schema: infer S extends ZodObject<any> }
+        ? SchemaProducer<T, S>
+        : OdmdCrossRefProducer<T>
+};
+
+/**
+ * The children props OdmdCrossRefProducer takes
+ */
+export interface ProducerChildProps {
+    pathPart: string;
+    s3artifact?: boolean;
+    children?: ProducerChildProps[];
+}
+
+export function producerChildrenProps(specs: ProducerChildSpecs): ProducerChildProps[] {
+    return Object.values(specs).map(({pathPart, s3artifact, children}) => ({
+        pathPart,
+        ...(s3artifact !== undefined ? {s3artifact} : {}),
+        ...(children ? {children: producerChildrenProps(children)} : {})
+    }));
+}
+
+/**
+ * A child declared with `schema`, under its accessor name
+ */
+export interface ProducerSchemaSlot {
+    name: string;
+    producer: OdmdCrossRefProducer<AnyOdmdEnVer>;
+    schema: ZodObject<any>;
+}
+
+/**
+ * A route payload's schema child, with the name the schema is documented under
+ */
+export interface ProducerRoutePayloadSlot extends ProducerSchemaSlot {
+    component: string;
+}
+
+/**
+ * A route with its base url producer and payload schema children resolved
+ */
+export interface ProducerRouteSlot {
+    route: ProducerRoute;
+    endpoint: OdmdCrossRefProducer<AnyOdmdEnVer>;
+    request?: ProducerRoutePayloadSlot;
+    response?: ProducerRoutePayloadSlot;
+}
+
+/**
+ * A bucket with its object body and metadata schema children resolved
+ */
+export interface ProducerBucketSlot {
+    objects: ProducerBucketObjects;
+    bucket: OdmdCrossRefProducer<AnyOdmdEnVer>;
+    payload?: ProducerSchemaSlot;
+    metadata?: ProducerSchemaSlot;
+}
+
+const specsByProducer = new WeakMap<object, ProducerChildSpecs>();
+const slotByChild = new WeakMap<object, ProducerSchemaSlot>();
+const routesByEndpoint = new WeakMap<object, ProducerRouteSlot[]>();
+const bucketByProducer = new WeakMap<object, ProducerBucketSlot>();
+const kindByProducer = new WeakMap<object, ProducerValueKind>();
+
+function valueKind(spec: ProducerChildSpec | ProducerOwnSpec): ProducerValueKind | undefined {
+    if ('schema' in spec && spec.schema) {
+        return 'schema';
+    }
+    if (spec.objects || spec.bucket) {
+        return 'bucket';
+    }
+    return spec.routes ? 'api' : undefined;
+}
+
+/**
+ * Named accessors for the children a producer was created with from `producerChildrenProps(specs)`,
+ * both follow the key order of the same specs so accessors can't drift from the declaration.
+ * `own` declares the routes or objects of the producer's own value.
+ */
+export function producerChildren<C extends ProducerChildSpecs, T extends AnyOdmdEnVer>(
+    producer: OdmdCrossRefProducer<T>,
+    specs: C,
+    own: ProducerOwnSpec = {}
+): ProducerChildren<C, T> {
+    const named: Record<string, OdmdCrossRefProducer<T>> = {};
+    const declared: [OdmdCrossRefProducer<T>, ProducerOwnSpec][] = [[producer, own]];
+
+    const visit = (parent: OdmdCrossRefProducer<T>, level: ProducerChildSpecs) => {
+        const children = parent.children ?? [];
+        if (children.length != Object.keys(level).length) {
+            throw new Error(`${parent.node.path} has ${children.length} children, its specs declare ${Object.keys(level).length}`);
+        }
+        Object.entries(level).forEach(([name, spec], i) => {
+            if (name in named) {
+                throw new Error(`${producer.node.path}: duplicate child name '${name}'`);
+            }
+            named[name] = children[i];
+            const kind = valueKind(spec);
+            if (kind) {
+                kindByProducer.set(children[i], kind);
+            }
+            if (spec.schema) {
+                slotByChild.set(children[i], {name, producer: children[i], schema: spec.schema});
+            }
+            if (spec.routes || spec.objects) {
+                declared.push([children[i], spec]);
+            }
+            if (spec.children) {
+                visit(children[i], spec.children);
+            }
+        });
+    };
+    visit(producer, specs);
+    const ownKind = valueKind(own);
+    if (ownKind) {
+        kindByProducer.set(producer, ownKind);
+    }
+
+    const schemaChild = (declaredBy: string, child?: string): ProducerSchemaSlot | undefined => {
+        if (child === undefined) {
+            return undefined;
+        }
+        const slot = named[child] && slotByChild.get(named[child]);
+        if (!slot) {
+            throw new Error(`${producer.node.path}: ${declaredBy} names '${child}', which is not a schema child`);
+        }
+        return slot;
+    };
+    const payload = (route: ProducerRoute, p?: ProducerRoutePayload): ProducerRoutePayloadSlot | undefined => {
+        const slot = schemaChild(route.operationId, p?.child);
+        return slot && {...slot, component: p!.component};
+    };
+    declared.forEach(([child, {routes, objects}]) => {
+        if (routes && routes.length > 0) {
+            routesByEndpoint.set(child, routes.map(route => ({
+                route,
+                endpoint: child,
+                request: payload(route, route.request),
+                response: payload(route, route.response)
+            })));
+        }
+        if (objects) {
+            bucketByProducer.set(child, {
+                objects,
+                bucket: child,
+                payload: schemaChild(objects.channel, objects.payload),
+                metadata: schemaChild(objects.channel, objects.metadata)
+            });
+        }
+    });
+
+    specsByProducer.set(producer, specs);
+    return named as ProducerChildren<C, T>;
+}
+
+/**
+ * Payload schema a child was declared with, undefined for children without `schema`
+ */
+export function producerSchema(producer: OdmdCrossRefProducer<AnyOdmdEnVer>): ZodObject<any> | undefined {
+    return slotByChild.get(producer)?.schema;
+}
+
+/**
+ * Kind of value the producer or child was declared with, undefined for plain values such as names and versions
+ */
+export function producerValueKind(producer: OdmdCrossRefProducer<AnyOdmdEnVer>): ProducerValueKind | undefined {
+    return kindByProducer.get(producer);
+}
+
+/**
+ * Routes of the enver's producers and children, in construct order then declaration order
+ */
+export function producerRouteSlots(enver: AnyOdmdEnVer): ProducerRouteSlot[] {
+    return enver.node.findAll().flatMap(c => routesByEndpoint.get(c) ?? []);
+}
+
+/**
+ * Buckets among the enver's producers and children, in construct order
+ */
+export function producerBucketSlots(enver: AnyOdmdEnVer): ProducerBucketSlot[] {
+    return enver.node.findAll()
+        .map(c => bucketByProducer.get(c))
+        .filter((slot): slot is ProducerBucketSlot => slot !== undefined);
+}
+
+/**
+ * Children of the enver's producers declared with `schema`, in construct order
+ */
+export function producerSchemaSlots(enver: AnyOdmdEnVer): ProducerSchemaSlot[] {
+    return enver.node.findAll()
+        .map(c => slotByChild.get(c))
+        .filter((slot): slot is ProducerSchemaSlot => slot !== undefined);
+}
+
+/**
+ * Position (`0`, `0/3` when nested) and pathPart of a named child, together they key the child's stored SSM value
+ */
+export interface ProducerChildLayout {
+    position: string;
+    pathPart: string;
+}
+
+/**
+ * Child layouts by child name, keyed by `<buildId>/<producer id>`
+ */
+export type ProducerChildrenSnapshot = Record<string, Record<string, ProducerChildLayout>>;
+
+export function producerChildrenLayout(specs: ProducerChildSpecs): Record<string, ProducerChildLayout> {
+    const layout: Record<string, ProducerChildLayout> = {};
+    const visit = (level: ProducerChildSpecs, prefix: string) => {
+        Object.entries(level).forEach(([name, spec], i) => {
+            const position = prefix + i;
+            layout[name] = {position, pathPart: spec.pathPart};
+            if (spec.children) {
+                visit(spec.children, position + '/');
+            }
+        });
+    };
+    visit(specs, '');
+    return layout;
+}
+
+/**
+ * Layouts of every producer declared with named children, the same producer on several envers is taken once
+ */
+export function producerChildrenSnapshot(contracts: RagContracts): ProducerChildrenSnapshot {
+    const snapshot: ProducerChildrenSnapshot = {};
+    contracts.odmdBuilds.forEach(build => {
+        (build.envers as AnyOdmdEnVer[]).forEach(enver => {
+            enver.node.findAll().forEach(c => {
+                const specs = specsByProducer.get(c);
+                const key = `${build.buildId}/${c.node.id}`;
+                if (specs && !(key in snapshot)) {
+                    snapshot[key] = producerChildrenLayout(specs);
+                }
+            });
+        });
+    });
+    return Object.fromEntries(Object.entries(snapshot).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+export interface ProducerChildrenChange {
+    producer: string;
+    child: string;
+    message: string;
+}
+
+/**
+ * Changes to children recorded in the locked snapshot, new producers and children are allowed
+ * and so is renaming a child that keeps its pathPart and position
+ */
+export function compareProducerChildrenSnapshots(
+    locked: ProducerChildrenSnapshot,
+    current: ProducerChildrenSnapshot
+): ProducerChildrenChange[] {
+    const changes: ProducerChildrenChange[] = [];
+    Object.entries(locked).forEach(([producer, children]) => {
+        Object.entries(children).forEach(([child, was]) => {
+            const now = current[producer]?.[child]
+                ?? Object.values(current[producer] ?? {}).find(c => c.pathPart == was.pathPart && c.position == was.position);
+            if (!now) {
+                changes.push({producer, child, message: `removed (was ${was.pathPart} at ${was.position})`});
+                return;
+            }
+            if (now.pathPart != was.pathPart) {
+                changes.push({producer, child, message: `pathPart changed from ${was.pathPart} to ${now.pathPart}`});
+            }
+            if (now.position != was.position) {
+                changes.push({producer, child, message: `moved from ${was.position} to ${now.position}`});
+            }
+        });
+    });
+    return changes;
+}
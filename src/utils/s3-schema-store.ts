@@ -0,0 +1,119 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {GetParameterCommand, SSMClient} from '@aws-sdk/client-ssm';
+import {GetObjectCommand, ListObjectVersionsCommand, NoSuchKey, S3Client, S3ServiceException} from '@aws-sdk/client-s3';
+import {Bucket} from 'aws-cdk-lib/aws-s3';
+import {BucketDeployment, Source} from 'aws-cdk-lib/aws-s3-deployment';
+import {Role} from 'aws-cdk-lib/aws-iam';
+import {AwsCustomResource, PhysicalResourceId} from 'aws-cdk-lib/custom-resources';
+import {formatSchemaUrl, parseSchemaUrl, SchemaPublishRequest, SchemaStore} from './schema-store';
+
+/**
+ * Publishes schemas to the enver's artifact bucket with a BucketDeployment,
+ * the version is looked up at deploy time and the object is tagged with the git SHA
+ */
+export class S3SchemaStore implements SchemaStore {
+    constructor(private readonly s3Client: S3Client = new S3Client({})) {
+    }
+
+    async publish(request: SchemaPublishRequest): Promise<string> {
+        const {scope, producer: urlPrd, key: s3ObjKey, schemaJson, gitSha} = request;
+        const schemaFileName = path.basename(s3ObjKey);
+        const destinationKeyPrefix = path.dirname(s3ObjKey);
+
+        const tempSchemaDir = path.join(process.cwd(), 'cdk.out', 'schemas');
+        fs.mkdirSync(tempSchemaDir, {recursive: true});
+        const tempSchemaPath = path.join(tempSchemaDir, schemaFileName);
+        fs.writeFileSync(tempSchemaPath, schemaJson);
+
+        const artBucketName = await this.artifactBucketName(request);
+        const artBucket = Bucket.fromBucketName(scope, `artBucket-${urlPrd.node.id}`, artBucketName);
+
+        const buildRole = Role.fromRoleArn(scope, `currentRole-${urlPrd.node.id}`, urlPrd.owner.buildRoleArn);
+        const deployment = new BucketDeployment(scope, `SchemaDeployment-${urlPrd.node.id}`, {
+            sources: [Source.asset(tempSchemaDir)],
+            destinationBucket: artBucket,
+            destinationKeyPrefix,
+            retainOnDelete: true,
+            prune: false,
+            role: buildRole,
+        });
+
+        const getObjectVersion = new AwsCustomResource(scope, `GetObjectVersion-${urlPrd.node.id}`, {
+            onUpdate: {
+                service: 'S3',
+                action: 'listObjectVersions',
+                parameters: {
+                    Bucket: artBucketName,
+                    Prefix: s3ObjKey,
+                },
+                physicalResourceId: PhysicalResourceId.of(`versioning_${urlPrd.node.id}_` + gitSha),
+            },
+            role: buildRole
+        });
+        getObjectVersion.node.addDependency(deployment);
+
+        const addObjectTags = new AwsCustomResource(scope, `AddObjectTags-${urlPrd.node.id}`, {
+            onUpdate: {
+                service: 'S3',
+                action: 'putObjectTagging',
+                parameters: {
+                    Bucket: artBucketName,
+                    Key: s3ObjKey,
+                    VersionId: getObjectVersion.getResponseField('Versions.0.VersionId'),
+                    Tagging: {
+                        TagSet: [
+                            {Key: 'gitsha', Value: gitSha},
+                        ],
+                    },
+                },
+                physicalResourceId: PhysicalResourceId.of(`gitSha_${urlPrd.node.id}_` + gitSha),
+            },
+            role: buildRole
+        });
+        addObjectTags.node.addDependency(deployment);
+
+        return formatSchemaUrl({
+            bucket: artBucket.bucketName,
+            key: s3ObjKey,
+            version: getObjectVersion.getResponseField('Versions.0.VersionId')
+        });
+    }
+
+    async resolve(schemaUrl: string): Promise<string> {
+        const {bucket, key, version} = parseSchemaUrl(schemaUrl);
+        const response = await this.s3Client.send(new GetObjectCommand({Bucket: bucket, Key: key, VersionId: version}));
+        return response.Body!.transformToString();
+    }
+
+    async latest(request: SchemaPublishRequest): Promise<string | undefined> {
+        const bucket = await this.artifactBucketName(request);
+        try {
+            const response = await this.s3Client.send(new GetObjectCommand({Bucket: bucket, Key: request.key}));
+            return await response.Body!.transformToString();
+        } catch (e) {
+            if (e instanceof NoSuchKey) {
+                return undefined;
+            }
+            // without s3:ListBucket a missing key is AccessDenied, the version listing publish relies on tells them apart
+            if (e instanceof S3ServiceException && e.$metadata.httpStatusCode == 403 && !await this.published(bucket, request.key)) {
+                return undefined;
+            }
+            throw e;
+        }
+    }
+
+    private async published(bucket: string, key: string): Promise<boolean> {
+        const response = await this.s3Client.send(new ListObjectVersionsCommand({Bucket: bucket, Prefix: key, MaxKeys: 1}));
+        return (response.Versions ?? []).some(v => v.Key == key);
+    }
+
+    private async artifactBucketName(request: SchemaPublishRequest): Promise<string> {
+        const {scope, producer: urlPrd} = request;
+        const parameterName = urlPrd.owner.artifactPrefixSsm.substring(0, urlPrd.owner.artifactPrefixSsm.length - scope.account.length - 1);
+
+        const ssm = new SSMClient()
+        const bucketResp = await ssm.send(new GetParameterCommand({Name: parameterName}))
+        return bucketResp.Parameter!.Value!;
+    }
+}
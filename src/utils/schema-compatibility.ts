@@ -0,0 +1,213 @@
+/**
+ * backward: payloads valid under the previous schema are valid under the candidate,
+ * consumers regenerated from the candidate still read what was published before.
+ * forward: payloads valid under the candidate are valid under the previous schema,
+ * consumers still on the previous schema read what is published next.
+ */
+export type SchemaCompatibility = 'identical' | 'full' | 'backward' | 'forward' | 'breaking';
+
+/**
+ * Compatibility a new producer schema version must keep, 'none' accepts any change
+ */
+export type SchemaCompatibilityLevel = 'full' | 'backward' | 'forward' | 'none';
+
+export type SchemaChangeKind =
+    'field-added'
+    | 'field-removed'
+    | 'field-now-required'
+    | 'field-now-optional'
+    | 'type-changed'
+    | 'enum-changed'
+    | 'additional-properties-changed'
+    | 'constraint-changed';
+
+export interface SchemaFieldChange {
+    /**
+     * Dotted field path, `[]` for array items, `{}` for record values, `$` for the root
+     */
+    path: string;
+    kind: SchemaChangeKind;
+    backward: boolean;
+    forward: boolean;
+    reason: string;
+}
+
+export interface SchemaCompatibilityReport {
+    compatibility: SchemaCompatibility;
+    changes: SchemaFieldChange[];
+}
+
+type JsonSchema = Record<string, any>;
+
+// keywords compared structurally, the rest of the non-annotation keywords are compared as constraints
+const STRUCTURAL_KEYWORDS = ['type', 'properties', 'required', 'items', 'enum', 'additionalProperties'];
+const ANNOTATION_KEYWORDS = ['$schema', 'title', 'description', 'default', 'examples', '$comment'];
+
+/**
+ * Compares a candidate JSON Schema against the previously published one
+ */
+export function checkSchemaCompatibility(previous: JsonSchema, candidate: JsonSchema): SchemaCompatibilityReport {
+    const changes: SchemaFieldChange[] = [];
+    compareSchemas('$', previous, candidate, changes);
+
+    const backward = changes.every(c => c.backward);
+    const forward = changes.every(c => c.forward);
+    return {
+        compatibility: changes.length == 0 ? 'identical'
+            : backward && forward ? 'full'
+                : backward ? 'backward'
+                    : forward ? 'forward'
+                        : 'breaking',
+        changes
+    };
+}
+
+/**
+ * Changes that violate the level
+ */
+export function incompatibleChanges(report: SchemaCompatibilityReport, level: SchemaCompatibilityLevel): SchemaFieldChange[] {
+    return report.changes.filter(c =>
+        (level == 'full' || level == 'backward') && !c.backward
+        || (level == 'full' || level == 'forward') && !c.forward);
+}
+
+export function formatSchemaCompatibilityReport(report: SchemaCompatibilityReport): string {
+    return [
+        `schema change: ${report.compatibility}`,
+        ...report.changes.map(c =>
+            `  ${c.path} [${c.kind}] backward:${c.backward ? 'yes' : 'no'} forward:${c.forward ? 'yes' : 'no'} - ${c.reason}`)
+    ].join('\n');
+}
+
+function compareSchemas(path: string, previous: JsonSchema, candidate: JsonSchema, changes: SchemaFieldChange[]) {
+    const change = (kind: SchemaChangeKind, backward: boolean, forward: boolean, reason: string) =>
+        changes.push({path, kind, backward, forward, reason});
+
+    const prevTypes = typesOf(previous);
+    const candTypes = typesOf(candidate);
+    if (prevTypes && candTypes && !sameSet(prevTypes, candTypes)) {
+        const widened = prevTypes.every(t => acceptsType(candTypes, t));
+        const narrowed = candTypes.every(t => acceptsType(prevTypes, t));
+        change('type-changed', widened, narrowed,
+            `type ${prevTypes.join('|')} -> ${candTypes.join('|')}`);
+    }
+
+    if (previous.enum || candidate.enum) {
+        const prevEnum: any[] | undefined = previous.enum;
+        const candEnum: any[] | undefined = candidate.enum;
+        const added = candEnum ? candEnum.filter(v => !prevEnum || !includesJson(prevEnum, v)) : [];
+        const removed = prevEnum ? prevEnum.filter(v => !candEnum || !includesJson(candEnum, v)) : [];
+        if (!candEnum) {
+            change('enum-changed', true, false, `enum ${JSON.stringify(prevEnum)} removed, any value allowed`);
+        } else if (!prevEnum) {
+            change('enum-changed', false, true, `restricted to enum ${JSON.stringify(candEnum)}`);
+        } else if (added.length > 0 || removed.length > 0) {
+            change('enum-changed', removed.length == 0, added.length == 0,
+                [added.length > 0 ? `values added ${JSON.stringify(added)}` : '',
+                    removed.length > 0 ? `values removed ${JSON.stringify(removed)}` : '']
+                    .filter(s => s).join(', '));
+        }
+    }
+
+    const prevClosed = previous.additionalProperties === false;
+    const candClosed = candidate.additionalProperties === false;
+    if (prevClosed != candClosed) {
+        change('additional-properties-changed', prevClosed, candClosed,
+            candClosed ? 'unknown properties now rejected' : 'unknown properties now allowed');
+    } else if (isSchema(previous.additionalProperties) && isSchema(candidate.additionalProperties)) {
+        compareSchemas(`${path}{}`, previous.additionalProperties, candidate.additionalProperties, changes);
+    }
+
+    if (previous.properties || candidate.properties) {
+        const prevProps: JsonSchema = previous.properties ?? {};
+        const candProps: JsonSchema = candidate.properties ?? {};
+        const prevRequired = new Set<string>(previous.required ?? []);
+        const candRequired = new Set<string>(candidate.required ?? []);
+
+        for (const name of Object.keys(candProps)) {
+            const fieldPath = `${path}.${name}`;
+            if (!(name in prevProps)) {
+                const required = candRequired.has(name);
+                changes.push({
+                    path: fieldPath,
+                    kind: 'field-added',
+                    backward: !required,
+                    forward: !prevClosed,
+                    reason: required
+                        ? 'required field added, payloads published before lack it'
+                        : prevClosed
+                            ? 'optional field added, previous schema rejects unknown properties'
+                            : 'optional field added'
+                });
+                continue;
+            }
+            if (prevRequired.has(name) && !candRequired.has(name)) {
+                changes.push({
+                    path: fieldPath, kind: 'field-now-optional', backward: true, forward: false,
+                    reason: 'field no longer required, consumers on the previous schema expect it'
+                });
+            } else if (!prevRequired.has(name) && candRequired.has(name)) {
+                changes.push({
+                    path: fieldPath, kind: 'field-now-required', backward: false, forward: true,
+                    reason: 'field now required, payloads published before may lack it'
+                });
+            }
+            compareSchemas(fieldPath, prevProps[name], candProps[name], changes);
+        }
+
+        for (const name of Object.keys(prevProps).filter(n => !(n in candProps))) {
+            const required = prevRequired.has(name);
+            changes.push({
+                path: `${path}.${name}`,
+                kind: 'field-removed',
+                backward: !candClosed,
+                forward: !required,
+                reason: required
+                    ? 'required field removed, consumers on the previous schema expect it'
+                    : candClosed
+                        ? 'field removed, candidate rejects payloads published before that carry it'
+                        : 'optional field removed'
+            });
+        }
+    }
+
+    if (isSchema(previous.items) && isSchema(candidate.items)) {
+        compareSchemas(`${path}[]`, previous.items, candidate.items, changes);
+    } else if (previous.items !== undefined || candidate.items !== undefined) {
+        if (JSON.stringify(previous.items) !== JSON.stringify(candidate.items)) {
+            change('constraint-changed', false, false, 'array items changed');
+        }
+    }
+
+    const constraintKeys = new Set([...Object.keys(previous), ...Object.keys(candidate)]
+        .filter(k => !STRUCTURAL_KEYWORDS.includes(k) && !ANNOTATION_KEYWORDS.includes(k)));
+    for (const key of constraintKeys) {
+        if (JSON.stringify(previous[key]) !== JSON.stringify(candidate[key])) {
+            change('constraint-changed', false, false,
+                `${key} ${JSON.stringify(previous[key])} -> ${JSON.stringify(candidate[key])}, compatibility not proven`);
+        }
+    }
+}
+
+function typesOf(schema: JsonSchema): string[] | undefined {
+    if (schema.type === undefined) {
+        return undefined;
+    }
+    return Array.isArray(schema.type) ? schema.type : [schema.type];
+}
+
+function acceptsType(types: string[], type: string): boolean {
+    return types.includes(type) || type == 'integer' && types.includes('number');
+}
+
+function sameSet(a: string[], b: string[]): boolean {
+    return a.length == b.length && a.every(t => b.includes(t));
+}
+
+function includesJson(values: any[], value: any): boolean {
+    return values.some(v => JSON.stringify(v) === JSON.stringify(value));
+}
+
+function isSchema(value: any): value is JsonSchema {
+    return typeof value == 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,59 @@
+import type { z, ZodObject } from "zod";
+import { AnyOdmdEnVer, OdmdCrossRefConsumer, OdmdCrossRefProducer } from "@ondemandenv/contracts-lib-base";
+import { producerSchema } from "./producer-children";
+
+declare const payloadSchema: unique symbol;
+
+/**
+ * A producer child publishing the schema `S`, declared with `schema` in its ProducerChildSpec.
+ * `S` only exists at compile time, producerSchema(producer) gives the runtime schema
+ */
+export type SchemaProducer<T extends AnyOdmdEnVer, S extends ZodObject<any>> = OdmdCrossRefProducer<T> & {
+    readonly [payloadSchema]?: S
+};
+
+/**
+ * Schema a producer child is typed with, any ZodObject for untyped producers
+ */
+export type ProducerSchema<P> = P extends { readonly [payloadSchema]?: infer S }
+    ? (S extends ZodObject<any> ? S : ZodObject<any>)
+    : ZodObject<any>;
+
+/**
+ * Payload type of a schema-typed producer or consumer
+ */
+export type SchemaPayload<X> = X extends SchemaCrossRefConsumer<any, any, infer S>
+    ? z.infer<S>
+    : z.infer<ProducerSchema<X>>;
+
+/**
+ * Consumer of a schema slot that knows the payload shape of the producer it subscribes to
+ */
+export class SchemaCrossRefConsumer<
+    C extends AnyOdmdEnVer,
+    P extends AnyOdmdEnVer,
+    S extends ZodObject<any>
+> extends OdmdCrossRefConsumer<C, P> {
+    readonly schema: S;
+
+    constructor(
+        owner: C,
+        id: string,
+        producer: SchemaProducer<P, S>,
+        props?: ConstructorParameters<typeof OdmdCrossRefConsumer<C, P>>[3]
+    ) {
+        super(owner, id, producer, props);
+        const schema = producerSchema(producer);
+        if (!schema) {
+            throw new Error(`${producer.node.path} is not declared with a schema`);
+        }
+        this.schema = schema as S;
+    }
+
+    /**
+     * Payload parsed against the producer's schema, throws ZodError on mismatch
+     */
+    parse(payload: unknown): z.infer<S> {
+        return this.schema.parse(payload);
+    }
+}
@@ -1,81 +1,106 @@
 import * as cdk from 'aws-cdk-lib';
 import {execSync} from 'child_process';
-import * as fs from 'fs';
-import * as path from 'path';
-import {GetParameterCommand, SSMClient} from '@aws-sdk/client-ssm';
-import {Bucket} from 'aws-cdk-lib/aws-s3';
-import {BucketDeployment, Source} from 'aws-cdk-lib/aws-s3-deployment';
-import {Role} from 'aws-cdk-lib/aws-iam';
 import {ZodObject} from 'zod';
-import {AwsCustomResource, PhysicalResourceId} from 'aws-cdk-lib/custom-resources';
 import {zodToJsonSchema} from 'zod-to-json-schema';
 import {OdmdCrossRefProducer, AnyOdmdEnVer} from "@ondemandenv/contracts-lib-base";
+import {schemaObjectKey, SchemaPublishRequest, SchemaStore} from './schema-store';
+import {S3SchemaStore} from './s3-schema-store';
+import {
+    checkSchemaCompatibility,
+    formatSchemaCompatibilityReport,
+    incompatibleChanges,
+    SchemaCompatibilityLevel
+} from './schema-compatibility';
+import {producerSchemaSlots} from './producer-children';
+import {ProducerSchema} from './schema-cross-refs';
+import {producerSchema} from './producer-children';
 
-export async function deploySchema<T extends AnyOdmdEnVer>(
+export interface DeploySchemaOptions {
+    /**
+     * Compatibility the schema must keep with the last published version, default 'backward'
+     */
+    compatibility?: SchemaCompatibilityLevel;
+    /**
+     * Throw during synth on an incompatible schema instead of adding a warning, default false
+     */
+    failOnBreaking?: boolean;
+    /**
+     * Explicit override, publishes an incompatible schema with a warning even when failOnBreaking is set
+     */
+    allowBreaking?: boolean;
+}
+
+/**
+ * Publishes the producer's schema and returns its s3://bucket/key@version url,
+ * to the enver's artifact bucket unless another store is given.
+ * The schema is first checked against the version last published for the same producer.
+ * A producer declared with a schema only accepts that schema.
+ */
+export async function deploySchema<P extends OdmdCrossRefProducer<AnyOdmdEnVer>>(
     scope: cdk.Stack,
-    schema: ZodObject<any>,
-    urlPrd: OdmdCrossRefProducer<T>
+    schema: ProducerSchema<P>,
+    urlPrd: P,
+    store: SchemaStore = new S3SchemaStore(),
+    options: DeploySchemaOptions = {}
 ): Promise<string> {
-    const gitSha = execSync('git rev-parse HEAD').toString().trim();
-    const schemaFileName = `${urlPrd.node.id}.json`;
+    // the schema parameter is only typed by the producer's declaration, a cast producer is caught here
+    const declared = producerSchema(urlPrd);
+    if (declared !== undefined && declared !== schema) {
+        throw new Error(`${urlPrd.node.path} is declared with another schema than the one given to deploySchema`);
+    }
+    const published: ZodObject<any> = schema;
 
-    const tempSchemaDir = path.join(process.cwd(), 'cdk.out', 'schemas');
-    fs.mkdirSync(tempSchemaDir, {recursive: true});
-    const tempSchemaPath = path.join(tempSchemaDir, schemaFileName);
-    fs.writeFileSync(tempSchemaPath, JSON.stringify(zodToJsonSchema(schema), null, 2));
+    const gitSha = execSync('git rev-parse HEAD').toString().trim();
 
-    const parameterName = urlPrd.owner.artifactPrefixSsm.substring(0, urlPrd.owner.artifactPrefixSsm.length - scope.account.length - 1);
+    const request: SchemaPublishRequest = {
+        scope,
+        producer: urlPrd,
+        key: schemaObjectKey(scope.account, urlPrd),
+        schemaJson: JSON.stringify(zodToJsonSchema(published), null, 2),
+        gitSha
+    };
 
-    const ssm = new SSMClient()
-    const bucketResp = await ssm.send(new GetParameterCommand({Name: parameterName}))
+    await checkPublishedCompatibility(request, store, options);
 
-    const artBucket = Bucket.fromBucketName(scope, `artBucket-${urlPrd.node.id}`, bucketResp.Parameter!.Value!);
+    return store.publish(request);
+}
 
-    const buildRole = Role.fromRoleArn(scope, `currentRole-${urlPrd.node.id}`, urlPrd.owner.buildRoleArn);
-    const destinationKeyPrefix = `${scope.account}/${urlPrd.owner.targetRevision.toPathPartStr()}`;
-    const deployment = new BucketDeployment(scope, `SchemaDeployment-${urlPrd.node.id}`, {
-        sources: [Source.asset(tempSchemaDir)],
-        destinationBucket: artBucket,
-        destinationKeyPrefix,
-        retainOnDelete: true,
-        prune: false,
-        role: buildRole,
-    });
-    const s3ObjKey = destinationKeyPrefix + '/' + schemaFileName;
+/**
+ * Publishes the schema of every schema slot on the enver with deploySchema,
+ * returns the url per producer child accessor name
+ */
+export async function deployCatalogSchemas<T extends AnyOdmdEnVer>(
+    scope: cdk.Stack,
+    enver: T,
+    store: SchemaStore = new S3SchemaStore(),
+    options: DeploySchemaOptions = {}
+): Promise<Record<string, string>> {
+    const urls: Record<string, string> = {};
+    for (const slot of producerSchemaSlots(enver)) {
+        urls[slot.name] = await deploySchema(scope, slot.schema, slot.producer, store, options);
+    }
+    return urls;
+}
 
-    const getObjectVersion = new AwsCustomResource(scope, `GetObjectVersion-${urlPrd.node.id}`, {
-        onUpdate: {
-            service: 'S3',
-            action: 'listObjectVersions',
-            parameters: {
-                Bucket: bucketResp.Parameter!.Value!,
-                Prefix: s3ObjKey,
-            },
-            physicalResourceId: PhysicalResourceId.of(`versioning_${urlPrd.node.id}_` + gitSha),
-        },
-        role: buildRole
-    });
-    getObjectVersion.node.addDependency(deployment);
+async function checkPublishedCompatibility(request: SchemaPublishRequest, store: SchemaStore, options: DeploySchemaOptions) {
+    const level = options.compatibility ?? 'backward';
+    if (level == 'none') {
+        return;
+    }
+    const previousJson = await store.latest(request);
+    if (previousJson === undefined) {
+        return;
+    }
 
-    const addObjectTags = new AwsCustomResource(scope, `AddObjectTags-${urlPrd.node.id}`, {
-        onUpdate: {
-            service: 'S3',
-            action: 'putObjectTagging',
-            parameters: {
-                Bucket: bucketResp.Parameter!.Value!,
-                Key: s3ObjKey,
-                VersionId: getObjectVersion.getResponseField('Versions.0.VersionId'),
-                Tagging: {
-                    TagSet: [
-                        {Key: 'gitsha', Value: gitSha},
-                    ],
-                },
-            },
-            physicalResourceId: PhysicalResourceId.of(`gitSha_${urlPrd.node.id}_` + gitSha),
-        },
-        role: buildRole
-    });
-    addObjectTags.node.addDependency(deployment);
+    const report = checkSchemaCompatibility(JSON.parse(previousJson), JSON.parse(request.schemaJson));
+    if (incompatibleChanges(report, level).length == 0) {
+        return;
+    }
 
-    return 's3://' + artBucket.bucketName + '/' + s3ObjKey + '@' + getObjectVersion.getResponseField('Versions.0.VersionId')
-}
\ No newline at end of file
+    const message = `Schema ${request.producer.node.path} is not ${level} compatible with ${request.key}:\n`
+        + formatSchemaCompatibilityReport(report);
+    if (options.failOnBreaking && !options.allowBreaking) {
+        throw new Error(message);
+    }
+    cdk.Annotations.of(request.scope).addWarning(message);
+}
@@ -0,0 +1,139 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type * as cdk from 'aws-cdk-lib';
+import type { AnyOdmdEnVer, OdmdCrossRefProducer } from "@ondemandenv/contracts-lib-base";
+
+/**
+ * Location of a published schema, the value producers share as `s3://bucket/key@version`
+ */
+export interface SchemaUrl {
+    bucket: string;
+    key: string;
+    version: string;
+}
+
+export function formatSchemaUrl(url: SchemaUrl): string {
+    return `s3://${url.bucket}/${url.key}@${url.version}`;
+}
+
+export function parseSchemaUrl(schemaUrl: string): SchemaUrl {
+    const match = /^s3:\/\/([^/]+)\/(.+)@([^@/]+)$/.exec(schemaUrl);
+    if (!match) {
+        throw new Error(`Not a schema url (s3://bucket/key@version): ${schemaUrl}`);
+    }
+    const [, bucket, key, version] = match;
+    return {bucket, key, version};
+}
+
+/**
+ * Object key deploySchema publishes a producer's schema under in the given account
+ */
+export function schemaObjectKey(account: string, producer: OdmdCrossRefProducer<AnyOdmdEnVer>): string {
+    return `${account}/${producer.owner.targetRevision.toPathPartStr()}/${producer.node.id}.json`;
+}
+
+export interface SchemaPublishRequest {
+    scope: cdk.Stack;
+    producer: OdmdCrossRefProducer<AnyOdmdEnVer>;
+    /**
+     * Object key, `<account>/<revision path part>/<producer id>.json`
+     */
+    key: string;
+    schemaJson: string;
+    gitSha: string;
+}
+
+/**
+ * Where deploySchema publishes producer schemas and consumers resolve them from
+ */
+export interface SchemaStore {
+    /**
+     * Publishes the schema and returns its `s3://bucket/key@version` url
+     */
+    publish(request: SchemaPublishRequest): Promise<string>;
+
+    /**
+     * Schema JSON of a url returned by publish
+     */
+    resolve(schemaUrl: string): Promise<string>;
+
+    /**
+     * Schema JSON last published under the request's key, undefined before the first publish
+     */
+    latest(request: SchemaPublishRequest): Promise<string | undefined>;
+}
+
+function contentVersion(schemaJson: string): string {
+    return crypto.createHash('sha256').update(schemaJson).digest('hex').substring(0, 16);
+}
+
+/**
+ * Keeps schemas in memory, for unit tests
+ */
+export class InMemorySchemaStore implements SchemaStore {
+    private readonly objects = new Map<string, string>();
+    private readonly latestByKey = new Map<string, string>();
+
+    constructor(readonly bucket: string = 'in-memory') {
+    }
+
+    async publish(request: SchemaPublishRequest): Promise<string> {
+        const url = formatSchemaUrl({bucket: this.bucket, key: request.key, version: contentVersion(request.schemaJson)});
+        this.objects.set(url, request.schemaJson);
+        this.latestByKey.set(request.key, request.schemaJson);
+        return url;
+    }
+
+    async resolve(schemaUrl: string): Promise<string> {
+        const schemaJson = this.objects.get(formatSchemaUrl(parseSchemaUrl(schemaUrl)));
+        if (schemaJson === undefined) {
+            throw new Error(`Schema not found: ${schemaUrl}`);
+        }
+        return schemaJson;
+    }
+
+    async latest(request: SchemaPublishRequest): Promise<string | undefined> {
+        return this.latestByKey.get(request.key);
+    }
+}
+
+/**
+ * Keeps schemas in a local directory laid out as <rootDir>/<bucket>/<key>@<version>,
+ * with the latest version of a key in <rootDir>/<bucket>/<key>@latest, for local sandboxes
+ */
+/**
+ * Bucket name of the urls LocalDirSchemaStore publishes by default
+ */
+export const LOCAL_SCHEMA_BUCKET = 'local';
+
+export class LocalDirSchemaStore implements SchemaStore {
+    constructor(readonly rootDir: string, readonly bucket: string = LOCAL_SCHEMA_BUCKET) {
+    }
+
+    async publish(request: SchemaPublishRequest): Promise<string> {
+        const url: SchemaUrl = {bucket: this.bucket, key: request.key, version: contentVersion(request.schemaJson)};
+        const filePath = this.filePath(url);
+        fs.mkdirSync(path.dirname(filePath), {recursive: true});
+        fs.writeFileSync(filePath, request.schemaJson);
+        fs.writeFileSync(this.filePath({...url, version: 'latest'}), request.schemaJson);
+        return formatSchemaUrl(url);
+    }
+
+    async resolve(schemaUrl: string): Promise<string> {
+        const filePath = this.filePath(parseSchemaUrl(schemaUrl));
+        if (!fs.existsSync(filePath)) {
+            throw new Error(`Schema not found: ${schemaUrl} (${filePath})`);
+        }
+        return fs.readFileSync(filePath, 'utf8');
+    }
+
+    async latest(request: SchemaPublishRequest): Promise<string | undefined> {
+        const filePath = this.filePath({bucket: this.bucket, key: request.key, version: 'latest'});
+        return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : undefined;
+    }
+
+    private filePath(url: SchemaUrl): string {
+        return path.join(this.rootDir, url.bucket, `${url.key}@${url.version}`);
+    }
+}
@@ -1,13 +1,14 @@
 #!/usr/bin/env npx tsx
 
-import {execSync} from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
 import {SSMClient, GetParameterCommand} from '@aws-sdk/client-ssm';
 import {S3Client, GetObjectCommand} from '@aws-sdk/client-s3';
 import {STSClient, AssumeRoleCommand, GetCallerIdentityCommand} from '@aws-sdk/client-sts';
 import {AwsCredentialIdentity} from "@smithy/types/dist-types/identity/awsCredentialIdentity";
+import {jsonSchemaToZod} from 'json-schema-to-zod';
 import {OdmdCrossRefConsumer, AnyOdmdEnVer} from "@ondemandenv/contracts-lib-base";
+import {LocalDirSchemaStore, parseSchemaUrl, SchemaStore} from './schema-store';
 
 interface GeneratedSchema {
     consumerId: string;
@@ -17,74 +18,70 @@ interface GeneratedSchema {
     jsonSchemaStr: any;
 }
 
-export class SchemaTypeGenerator<T extends AnyOdmdEnVer> {
-    private outputDir: string;
+/**
+ * Where SchemaTypeGenerator reads the enver_config lines and schema files from
+ */
+export interface SchemaTypeSource {
+    /**
+     * Lines of `<consumerId>:<value>`
+     */
+    enverConfigLines(): Promise<string[]>;
 
-    constructor(
-        private myEnver: T,
-        private consumers: OdmdCrossRefConsumer<T, AnyOdmdEnVer>[],
-        outputRelativePath: string = 'lib/handlers/src/__generated__'
-    ) {
-        this.outputDir = path.join(process.cwd(), outputRelativePath);
-        console.log(`🚀 Starting schema type generation for ${process.env.ODMD_buildId!}/${process.env.ODMD_rev_ref!}`);
-    }
-
-    async run(): Promise<void> {
-        const client = new STSClient({});
-        const callerIdResp = await client.send(new GetCallerIdentityCommand({}));
+    fetchSchema(schemaS3Url: string): Promise<string>;
+}
 
-        console.log("Caller:", JSON.stringify(callerIdResp, null, 2));
+/**
+ * Reads /odmd-{buildId}/{rev}/enver_config from SSM and schemas from S3, assuming the build and central roles
+ */
+export class AwsSchemaTypeSource implements SchemaTypeSource {
+    private buildRoleCreds?: Promise<AwsCredentialIdentity | undefined>;
+    private s3Client?: Promise<S3Client>;
 
-        let buildRoleCreds;
-        if (callerIdResp.Arn !== this.myEnver.buildRoleArn) {
-            buildRoleCreds = await this.stsAssumeRole(this.myEnver.buildRoleArn);
-        } else {
-            buildRoleCreds = undefined;
-        }
+    constructor(private myEnver: AnyOdmdEnVer) {
+    }
 
-        const ssmClient = new SSMClient({credentials: buildRoleCreds})
+    async enverConfigLines(): Promise<string[]> {
+        const ssmClient = new SSMClient({credentials: await this.getBuildRoleCreds()})
 
         const enverConfResp = await ssmClient.send(new GetParameterCommand({
             Name: `/odmd-${this.myEnver.owner.buildId}/${this.myEnver.targetRevision.toPathPartStr()}/enver_config`
         }));
 
-        const paramValLineArr = enverConfResp.Parameter!.Value!.split('\n') as string[]
-
-        this.ensureOutputDirectory();
+        return enverConfResp.Parameter!.Value!.split('\n') as string[]
+    }
 
-        const s3Client = new S3Client({credentials: await this.stsAssumeRole(this.myEnver.centralRoleArn, buildRoleCreds)})
+    async fetchSchema(schemaS3Url: string): Promise<string> {
+        const tmpArr = schemaS3Url.split('/')
+        const [Bucket, Kav] = [tmpArr[2], tmpArr.slice(3).join('/')]
+        const [Key] = Kav.split('@')
 
-        const schemas = await Promise.allSettled(
-            this.consumers.map(async c => {
-                const cl = paramValLineArr.find(p => p.startsWith(c.node.id + ':'))!
-                const schemaS3Url = cl.substring((c.node.id + ':').length);
-                const tmpArr = schemaS3Url.split('/')
-                const [Bucket, Kav] = [tmpArr[2], tmpArr.slice(3).join('/')]
-                const [Key, ver] = Kav.split('@')
+        const response = await (await this.getS3Client()).send(new GetObjectCommand({Bucket, Key}))
+        return response.Body!.transformToString();
+    }
 
-                const response = await s3Client.send(new GetObjectCommand({Bucket, Key}))
+    private getBuildRoleCreds(): Promise<AwsCredentialIdentity | undefined> {
+        if (!this.buildRoleCreds) {
+            this.buildRoleCreds = (async () => {
+                const client = new STSClient({});
+                const callerIdResp = await client.send(new GetCallerIdentityCommand({}));
 
-                const jsonSchemaStr = await response.Body!.transformToString();
-                const ret = {
-                    consumerId: c.node.id,
-                    schemaS3Url,
-                    ver: ver,
-                    jsonSchemaStr
-                } as GeneratedSchema;
-                await this.generateTypeScriptTypes(ret, response.LastModified!)
-                return ret
-            }))
+                console.log("Caller:", JSON.stringify(callerIdResp, null, 2));
 
-        const generatedSchemas: GeneratedSchema[] = schemas.map(a => {
-            if (a.status == 'fulfilled') {
-                return a.value as GeneratedSchema
-            } else {
-                throw new Error(a.reason)
-            }
-        })
+                return callerIdResp.Arn !== this.myEnver.buildRoleArn
+                    ? await this.stsAssumeRole(this.myEnver.buildRoleArn)
+                    : undefined;
+            })();
+        }
+        return this.buildRoleCreds;
+    }
 
-        console.log(`\n🎉 Successfully generated types for ${generatedSchemas.length} schema(s)`);
-        console.log(`📁 Output directory: ${this.outputDir}`);
+    private getS3Client(): Promise<S3Client> {
+        if (!this.s3Client) {
+            this.s3Client = (async () => new S3Client({
+                credentials: await this.stsAssumeRole(this.myEnver.centralRoleArn, await this.getBuildRoleCreds())
+            }))();
+        }
+        return this.s3Client;
     }
 
     private async stsAssumeRole(roleArn: string, credentials?: AwsCredentialIdentity): Promise<AwsCredentialIdentity> {
@@ -109,6 +106,99 @@ export class SchemaTypeGenerator<T extends AnyOdmdEnVer> {
             sessionToken: creds.SessionToken
         } as AwsCredentialIdentity
     }
+}
+
+/**
+ * Reads enver_config lines and schemas without network, from a schema store or a url → schema JSON map
+ */
+export class OfflineSchemaTypeSource implements SchemaTypeSource {
+    constructor(
+        private readonly enverConfig: string | string[],
+        private readonly schemas: SchemaStore | Record<string, string>
+    ) {
+    }
+
+    /**
+     * <dir>/enver_config holds the lines, schemas are laid out as in LocalDirSchemaStore: <dir>/<bucket>/<key>@<version>
+     */
+    static fromDirectory(dir: string): OfflineSchemaTypeSource {
+        return new OfflineSchemaTypeSource(
+            fs.readFileSync(path.join(dir, 'enver_config'), 'utf8'),
+            new LocalDirSchemaStore(dir)
+        );
+    }
+
+    async enverConfigLines(): Promise<string[]> {
+        return Array.isArray(this.enverConfig) ? this.enverConfig : this.enverConfig.split('\n');
+    }
+
+    async fetchSchema(schemaS3Url: string): Promise<string> {
+        if (isSchemaStore(this.schemas)) {
+            return this.schemas.resolve(schemaS3Url);
+        }
+        const jsonSchemaStr = this.schemas[schemaS3Url];
+        if (jsonSchemaStr === undefined) {
+            throw new Error(`Schema not found: ${schemaS3Url}`);
+        }
+        return jsonSchemaStr;
+    }
+}
+
+function isSchemaStore(schemas: SchemaStore | Record<string, string>): schemas is SchemaStore {
+    return typeof (schemas as SchemaStore).resolve == 'function';
+}
+
+export class SchemaTypeGenerator<T extends AnyOdmdEnVer> {
+    private outputDir: string;
+    private source: SchemaTypeSource;
+
+    constructor(
+        private myEnver: T,
+        private consumers: OdmdCrossRefConsumer<T, AnyOdmdEnVer>[],
+        outputRelativePath: string = 'lib/handlers/src/__generated__',
+        source?: SchemaTypeSource
+    ) {
+        this.outputDir = path.join(process.cwd(), outputRelativePath);
+        this.source = source ?? new AwsSchemaTypeSource(myEnver);
+        console.log(`🚀 Starting schema type generation for ${process.env.ODMD_buildId!}/${process.env.ODMD_rev_ref!}`);
+    }
+
+    async run(): Promise<void> {
+        const paramValLineArr = await this.source.enverConfigLines();
+
+        this.ensureOutputDirectory();
+
+        const schemas = await Promise.allSettled(
+            this.consumers.map(async c => {
+                const cl = paramValLineArr.find(p => p.startsWith(c.node.id + ':'))
+                if (!cl) {
+                    throw new Error(`No enver_config line for consumer ${c.node.id}`);
+                }
+                const schemaS3Url = cl.substring((c.node.id + ':').length);
+                const {version: ver} = parseSchemaUrl(schemaS3Url);
+
+                const jsonSchemaStr = await this.source.fetchSchema(schemaS3Url);
+                const ret = {
+                    consumerId: c.node.id,
+                    schemaS3Url,
+                    ver: ver,
+                    jsonSchemaStr
+                } as GeneratedSchema;
+                this.generateTypeScriptTypes(ret)
+                return ret
+            }))
+
+        const generatedSchemas: GeneratedSchema[] = schemas.map(a => {
+            if (a.status == 'fulfilled') {
+                return a.value as GeneratedSchema
+            } else {
+                throw new Error(a.reason)
+            }
+        })
+
+        console.log(`\n🎉 Successfully generated types for ${generatedSchemas.length} schema(s)`);
+        console.log(`📁 Output directory: ${this.outputDir}`);
+    }
 
     private ensureOutputDirectory(): void {
         if (!fs.existsSync(this.outputDir)) {
@@ -121,7 +211,7 @@ export class SchemaTypeGenerator<T extends AnyOdmdEnVer> {
         }
     }
 
-    private async generateTypeScriptTypes(schema: GeneratedSchema, time: Date): Promise<void> {
+    private generateTypeScriptTypes(schema: GeneratedSchema): void {
         console.log(`generateTypeScriptTypes: ${JSON.stringify(schema, null, 2)}`);
         const {consumerId, schemaS3Url, ver, jsonSchemaStr} = schema;
 
@@ -138,12 +228,14 @@ export class SchemaTypeGenerator<T extends AnyOdmdEnVer> {
             const zodFilePath = path.join(this.outputDir, zodFileName);
 
             const camelCaseConsumerId = consumerId.replace(/-([a-z])/g, (g) => g[1].toUpperCase());
-            const zodCommand = `npx json-schema-to-zod --input "${schemaFilePath}" --name "${camelCaseConsumerId}Schema" --noImport`;
 
-            const zodSchemas = execSync(zodCommand, {
-                encoding: 'utf8',
-                cwd: path.dirname(this.outputDir)
-            });
+            // same output as `npx json-schema-to-zod --name <name> --noImport --zodVersion 3`, which prints with a trailing newline
+            const zodSchemas = jsonSchemaToZod(JSON.parse(jsonSchemaStr), {
+                name: `${camelCaseConsumerId}Schema`,
+                module: 'esm',
+                noImport: true,
+                zodVersion: 3
+            }) + '\n';
 
             const zodContent = `${bannerComment}
 
@@ -163,4 +255,4 @@ export type ${camelCaseConsumerId}Schema = z.infer<typeof ${camelCaseConsumerId}
             throw error;
         }
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,63 @@
+import { buildAsyncApiDocument, S3_METADATA_HEADERS } from '../src/utils/asyncapi';
+import { withRagContracts } from './setup';
+
+describe('AsyncAPI', () => {
+    test('should describe the status metadata keys', () => {
+        expect(S3_METADATA_HEADERS['processing-status'].enum).toContain('completed');
+        expect(S3_METADATA_HEADERS.placeholder.enum).toEqual(['true', 'false']);
+    });
+
+    describe('contracts', () => {
+        const ragContracts = withRagContracts();
+
+        test('should make each bucket producer declaring objects a channel', () => {
+            const document = buildAsyncApiDocument(ragContracts(), 'dev');
+            const processing = ragContracts().ragDocumentProcessingBuild.getEnver('dev');
+            const bucket = processing.processedContentStorage.processedContentBucket;
+
+            expect(document.asyncapi).toBe('3.0.0');
+            expect(Object.keys(document.channels)).toEqual(['documents', 'processedContent', 'embeddings', 'vectorMetadata']);
+            expect(document.channels.processedContent).toEqual({
+                address: '{bucket}',
+                description: expect.any(String),
+                parameters: {bucket: {description: `Bucket name, the value of ${bucket.node.path}`}},
+                messages: {processedContentObject: {$ref: '#/components/messages/processedContentObject'}},
+                'x-odmd-producer': bucket.node.path
+            });
+        });
+
+        test('should take payloads and headers from the schema children of the objects', () => {
+            const {components: {messages}} = buildAsyncApiDocument(ragContracts(), 'dev');
+
+            const processed = messages.processedContentObject;
+            expect(processed.payload.$schema).toBeUndefined();
+            expect(processed.payload.required).toContain('chunks');
+            expect(Object.keys(processed.headers!.properties)).toEqual(['processing-status', 'placeholder', 'document-id']);
+            expect(messages.embeddingsObject.headers!.properties['chunk-id']).toEqual(S3_METADATA_HEADERS['chunk-id']);
+            expect(messages.vectorMetadataObject.contentType).toBe('application/json');
+            expect(messages.vectorMetadataObject.payload.type).toBe('object');
+
+            const documents = messages.documentsObject;
+            expect(documents.contentType).toBe('application/octet-stream');
+            expect(documents.payload).toEqual({type: 'string', format: 'binary'});
+            expect(Object.keys(documents.headers!.properties)).toEqual(expect.arrayContaining(['document-id', 'tenant-id', 'uploaded-at']));
+        });
+
+        test('should make each consuming enver of the lane a subscriber', () => {
+            const document = buildAsyncApiDocument(ragContracts(), 'dev');
+            const enverOf = (buildId: string) => ragContracts().laneResolver.pipeline
+                .find(b => b.buildId == buildId)!.getEnver('dev').node.path;
+
+            expect(document.operations['processedContent.send']).toEqual({
+                action: 'send', channel: {$ref: '#/channels/processedContent'}, 'x-odmd-enver': enverOf('ragProc')
+            });
+            expect(document.operations['documents.receive.ragProc.dev']['x-odmd-enver']).toBe(enverOf('ragProc'));
+            expect(document.operations['processedContent.receive.ragEmbed.dev']['x-odmd-enver']).toBe(enverOf('ragEmbed'));
+            expect(document.operations['embeddings.receive.ragStore.dev']['x-odmd-enver']).toBe(enverOf('ragStore'));
+            expect(document.operations['vectorMetadata.receive.ragRetr.dev']['x-odmd-enver']).toBe(enverOf('ragRetr'));
+
+            const receivers = Object.keys(document.operations).filter(k => k.includes('.receive.'));
+            expect(receivers.filter(k => !k.endsWith('.dev'))).toEqual([]);
+        });
+    });
+});
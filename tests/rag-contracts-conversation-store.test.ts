@@ -0,0 +1,68 @@
+import {
+    ConversationMessage,
+    ConversationMessageSchema,
+    ConversationTtlPolicySchema,
+    conversationExpiresAt,
+    conversationPartitionKey,
+    conversationSortKey
+} from '../src/schemas/conversation';
+import { withRagContracts } from './setup';
+
+const MESSAGE: ConversationMessage = {
+    tenantId: 'acme',
+    userId: 'user-1',
+    conversationId: 'conv-1',
+    turn: 2,
+    role: 'user',
+    content: 'and what about the second one?',
+    createdAt: '2026-01-01T00:00:00Z',
+    expiresAt: 1769904000
+};
+
+describe('Conversation Store', () => {
+    test('should partition conversations per tenant and user', () => {
+        expect(ConversationMessageSchema.parse(MESSAGE)).toEqual(MESSAGE);
+        expect(ConversationMessageSchema.safeParse({...MESSAGE, role: 'system'}).success).toBe(false);
+
+        expect(conversationPartitionKey(MESSAGE)).toBe('acme#user-1');
+        expect(conversationSortKey(MESSAGE)).toBe('conv-1#000002');
+        expect([conversationSortKey({...MESSAGE, turn: 10}), conversationSortKey(MESSAGE)].sort())
+            .toEqual(['conv-1#000002', 'conv-1#000010']);
+    });
+
+    test('should expire messages after the retention of the TTL policy', () => {
+        const policy = ConversationTtlPolicySchema.parse({ttlAttribute: 'expiresAt', retentionDays: 30, extendOnActivity: true});
+
+        expect(conversationExpiresAt(new Date('2026-01-01T00:00:00Z'), policy))
+            .toBe(Date.parse('2026-01-31T00:00:00Z') / 1000);
+        expect(ConversationTtlPolicySchema.safeParse({...policy, retentionDays: 0}).success).toBe(false);
+    });
+
+    describe('contracts', () => {
+        const ragContracts = withRagContracts();
+
+        test('should let retrieval and evaluation read the conversation store of their lane', () => {
+            Object.keys(ragContracts().enverTopology).forEach(laneName => {
+                const conversationStore = ragContracts().ragGenerationBuild.getEnver(laneName).conversationStore;
+                const retrieval = ragContracts().ragKnowledgeRetrievalBuild.getEnver(laneName);
+                const evaluation = ragContracts().ragEvaluationBuild.getEnver(laneName);
+
+                [retrieval, evaluation].forEach(enver => {
+                    expect(enver.conversationStoreTable.producer).toBe(conversationStore);
+                    expect(enver.conversationMessageSchemaS3Url.producer).toBe(conversationStore.conversationMessageSchemaS3Url);
+                    expect(enver.conversationPartitionKey.producer).toBe(conversationStore.conversationPartitionKey);
+                });
+                expect(evaluation.conversationTtlPolicy.producer).toBe(conversationStore.conversationTtlPolicy);
+
+                // generation consumes retrieval, so retrieval must not wait for generation
+                [retrieval.conversationStoreTable, retrieval.conversationMessageSchemaS3Url, retrieval.conversationPartitionKey]
+                    .forEach(c => {
+                        expect(c.options?.trigger).toBe('no');
+                        expect(c.options?.defaultIfAbsent).toBeDefined();
+                    });
+            });
+
+            expect(() => ragContracts().laneResolver.validateLanes()).not.toThrow();
+        });
+    });
+});
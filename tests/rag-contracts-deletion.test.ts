@@ -0,0 +1,58 @@
+import { DocumentTombstoneSchema } from '../src/schemas/document-tombstone';
+import { DocumentStatus, DocumentStatusSchema, isPurgeComplete } from '../src/schemas/document-status';
+import { withRagContracts } from './setup';
+
+describe('Document Deletion Contracts', () => {
+    test('should accept deleted and replaced documents in tombstones', () => {
+        expect(DocumentTombstoneSchema.safeParse({
+            documentId: 'doc-1', reason: 'deleted', deletedAt: '2026-01-01T00:00:00Z'
+        }).success).toBe(true);
+        expect(DocumentTombstoneSchema.safeParse({
+            documentId: 'doc-1', reason: 'replaced', replacedByDocumentId: 'doc-2', deletedAt: '2026-01-01T00:00:00Z'
+        }).success).toBe(true);
+        expect(DocumentTombstoneSchema.safeParse({
+            documentId: 'doc-1', reason: 'archived', deletedAt: '2026-01-01T00:00:00Z'
+        }).success).toBe(false);
+    });
+
+    test('should confirm a purge only when every stage with a status API reports purged', () => {
+        const status = (stage: DocumentStatus['stage'], state: DocumentStatus['status']): DocumentStatus =>
+            DocumentStatusSchema.parse({documentId: 'doc-1', stage, status: state, timestamp: '2026-01-01T00:00:00Z'});
+
+        const statuses = [
+            status('processing', 'purged'),
+            status('embedding', 'purged'),
+            status('vector-storage', 'deleted'),
+        ];
+        expect(isPurgeComplete(statuses)).toBe(false);
+
+        statuses[2] = status('vector-storage', 'purged');
+        expect(isPurgeComplete(statuses)).toBe(true);
+        expect(isPurgeComplete(statuses.slice(1))).toBe(false);
+    });
+
+    describe('contracts', () => {
+        const ragContracts = withRagContracts();
+
+        test('should propagate the deletion channel to every stage of the lane', () => {
+            Object.keys(ragContracts().enverTopology).forEach(laneName => {
+                const ingestion = ragContracts().ragDocumentIngestionBuild.getEnver(laneName);
+                const deletionEvents = ingestion.deletionEvents;
+
+                expect(deletionEvents.tombstoneSchemaS3Url).toBe(deletionEvents.children![0]);
+
+                const consumers = [
+                    ragContracts().ragDocumentProcessingBuild.getEnver(laneName),
+                    ragContracts().ragEmbeddingBuild.getEnver(laneName),
+                    ragContracts().ragVectorStorageBuild.getEnver(laneName),
+                ];
+                consumers.forEach(enver => {
+                    expect(enver.deletionEvents.producer).toBe(deletionEvents);
+                    expect(enver.tombstoneSchemaS3Url.producer).toBe(deletionEvents.tombstoneSchemaS3Url);
+                });
+            });
+
+            expect(() => ragContracts().laneResolver.validateLanes()).not.toThrow();
+        });
+    });
+});
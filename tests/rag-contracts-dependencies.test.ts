@@ -1,4 +1,5 @@
 import { App } from 'aws-cdk-lib';
+import {OdmdCrossRefConsumer} from '@ondemandenv/contracts-lib-base';
 import {RagContracts, RagUserAuthEnver} from '../src';
 
 describe('RagContracts Service Dependencies', () => {
@@ -54,12 +55,33 @@ describe('RagContracts Service Dependencies', () => {
         const knowledgeRetrieval = ragContracts.ragKnowledgeRetrievalBuild.dev;
         
         expect(vectorStorage.vectorStorage).toBeDefined();
+        expect(knowledgeRetrieval.vectorStorageEnver).toBe(vectorStorage);
+        expect(knowledgeRetrieval.vectorIndexName.producer).toBe(vectorStorage.vectorStorage.vectorIndexName);
+        expect(knowledgeRetrieval.vectorMetadataBucket.producer).toBe(vectorStorage.vectorStorage.vectorMetadataBucket);
+        expect(knowledgeRetrieval.vectorMetadataSchemaS3Url.producer).toBe(vectorStorage.vectorStorage.vectorMetadataSchemaS3Url);
         
         const generation = ragContracts.ragGenerationBuild.dev;
         
         expect(knowledgeRetrieval.vectorSearchProxyApi).toBeDefined();
     });
 
+    test('should chain ingestion through retrieval within every lane', () => {
+        Object.keys(ragContracts.enverTopology).forEach(laneName => {
+            const ingestion = ragContracts.ragDocumentIngestionBuild.getEnver(laneName);
+            const processing = ragContracts.ragDocumentProcessingBuild.getEnver(laneName);
+            const embedding = ragContracts.ragEmbeddingBuild.getEnver(laneName);
+            const vectorStorage = ragContracts.ragVectorStorageBuild.getEnver(laneName);
+            const retrieval = ragContracts.ragKnowledgeRetrievalBuild.getEnver(laneName);
+
+            expect(processing.documentBucket.producer.owner).toBe(ingestion);
+            expect(embedding.processedContentSubscription.producer.owner).toBe(processing);
+            expect(vectorStorage.embeddingSubscription.producer.owner).toBe(embedding);
+            expect(retrieval.vectorIndexName.producer.owner).toBe(vectorStorage);
+            expect(retrieval.vectorMetadataBucket.producer.owner).toBe(vectorStorage);
+            expect(retrieval.vectorMetadataSchemaS3Url.producer.owner).toBe(vectorStorage);
+        });
+    });
+
     test('should have correct authentication integration', () => {
         const userAuth = ragContracts.userAuth!.envers[0] as RagUserAuthEnver;
         const docIngestion = ragContracts.ragDocumentIngestionBuild.dev;
@@ -76,4 +98,43 @@ describe('RagContracts Service Dependencies', () => {
         expect(userAuth.logoutUrls.length).toBeGreaterThan(0);
         expect(userAuth.callbackUrls.length).toBeGreaterThan(0);
     });
-}); 
\ No newline at end of file
+
+    test('should pair every service enver with peers of its own lane', () => {
+        const lanes = ragContracts.laneResolver;
+
+        Object.keys(ragContracts.enverTopology).forEach(laneName => {
+            const ingestion = ragContracts.ragDocumentIngestionBuild.getEnver(laneName);
+            const processing = ragContracts.ragDocumentProcessingBuild.getEnver(laneName);
+            const embedding = ragContracts.ragEmbeddingBuild.getEnver(laneName);
+            const vectorStorage = ragContracts.ragVectorStorageBuild.getEnver(laneName);
+            const retrieval = ragContracts.ragKnowledgeRetrievalBuild.getEnver(laneName);
+            const generation = ragContracts.ragGenerationBuild.getEnver(laneName);
+
+            expect(lanes.laneOf(generation)).toBe(laneName);
+            expect(lanes.peer(generation, ragContracts.ragDocumentIngestionBuild)).toBe(ingestion);
+            expect(lanes.downstream(ingestion)).toBe(processing);
+            expect(lanes.upstream(processing)).toBe(ingestion);
+            expect(lanes.downstream(retrieval)).toBe(generation);
+            expect(lanes.upstream(ingestion)).toBeUndefined();
+            expect(lanes.downstream(generation)).toBeUndefined();
+
+            expect(generation.vectorSearchProxySubscription!.producer.owner).toBe(retrieval);
+            expect(ingestion.processingStatusApiEndpoint.producer.owner).toBe(processing);
+            expect(ingestion.embeddingStatusApiEndpoint.producer.owner).toBe(embedding);
+            expect(ingestion.vectorStorageStatusApiEndpoint.producer.owner).toBe(vectorStorage);
+        });
+
+        const userAuthEnver = ragContracts.userAuth!.envers[0] as RagUserAuthEnver;
+        expect(lanes.laneOf(userAuthEnver)).toBeUndefined();
+    });
+
+    test('should reject consumers wired to another lane', () => {
+        const generationDev = ragContracts.ragGenerationBuild.dev;
+        const retrievalProd = ragContracts.ragKnowledgeRetrievalBuild.prod;
+
+        expect(() => ragContracts.laneResolver.validateLanes()).not.toThrow();
+
+        new OdmdCrossRefConsumer(generationDev, 'cross-lane-health-check', retrievalProd.vectorSearchProxyApi.healthCheckEndpoint);
+        expect(() => ragContracts.laneResolver.validateLanes()).toThrow('Cross-lane consumption detected');
+    });
+});
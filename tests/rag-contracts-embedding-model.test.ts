@@ -0,0 +1,57 @@
+import {
+    EmbeddingModelDescriptor,
+    EmbeddingModelDescriptorSchema,
+    inactiveIndexSlot,
+    isEmbeddingModelCompatible
+} from '../src/schemas/embedding-model';
+import { withRagContracts } from './setup';
+
+const TITAN_V2: EmbeddingModelDescriptor = {
+    modelId: 'amazon.titan-embed-text-v2:0',
+    dimension: 1024,
+    normalization: 'l2',
+    modelVersion: '1'
+};
+
+describe('Embedding Model Versioning', () => {
+    test('should need a new index only when model, dimension or normalization change', () => {
+        expect(EmbeddingModelDescriptorSchema.parse(TITAN_V2)).toEqual(TITAN_V2);
+
+        expect(isEmbeddingModelCompatible(TITAN_V2, {...TITAN_V2, modelVersion: '2'})).toBe(true);
+        expect(isEmbeddingModelCompatible(TITAN_V2, {...TITAN_V2, dimension: 512})).toBe(false);
+        expect(isEmbeddingModelCompatible(TITAN_V2, {...TITAN_V2, modelId: 'cohere.embed-english-v3'})).toBe(false);
+        expect(isEmbeddingModelCompatible(TITAN_V2, {...TITAN_V2, normalization: 'none'})).toBe(false);
+    });
+
+    test('should re-embed into the inactive slot', () => {
+        expect(inactiveIndexSlot('blue')).toBe('green');
+        expect(inactiveIndexSlot('green')).toBe('blue');
+    });
+
+    describe('contracts', () => {
+        const ragContracts = withRagContracts();
+
+        test('should let vector storage consume the embedding model descriptor of its lane', () => {
+            Object.keys(ragContracts().enverTopology).forEach(laneName => {
+                const embeddingModel = ragContracts().ragEmbeddingBuild.getEnver(laneName).embeddingModel;
+                const vectorStorage = ragContracts().ragVectorStorageBuild.getEnver(laneName);
+
+                expect(vectorStorage.embeddingModelId.producer).toBe(embeddingModel.modelId);
+                expect(vectorStorage.embeddingDimension.producer).toBe(embeddingModel.dimension);
+                expect(vectorStorage.embeddingNormalization.producer).toBe(embeddingModel.normalization);
+                expect(vectorStorage.embeddingModelVersion.producer).toBe(embeddingModel.modelVersion);
+            });
+        });
+
+        test('should let retrieval follow the active index slot', () => {
+            Object.keys(ragContracts().enverTopology).forEach(laneName => {
+                const indexSlots = ragContracts().ragVectorStorageBuild.getEnver(laneName).indexSlots;
+                const retrieval = ragContracts().ragKnowledgeRetrievalBuild.getEnver(laneName);
+
+                expect(retrieval.activeIndexSlot.producer).toBe(indexSlots.activeIndexSlot);
+                expect(retrieval.blueIndexName.producer).toBe(indexSlots.blueIndexName);
+                expect(retrieval.greenIndexName.producer).toBe(indexSlots.greenIndexName);
+            });
+        });
+    });
+});
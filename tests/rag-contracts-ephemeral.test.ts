@@ -0,0 +1,92 @@
+import { App } from 'aws-cdk-lib';
+import { OdmdCrossRefConsumer } from '@ondemandenv/contracts-lib-base';
+import { RagContracts, RagContractsOptions, RagUserAuthEnver } from '../src';
+import { resetRagContracts } from './setup';
+
+function createContracts(options: RagContractsOptions): RagContracts {
+    resetRagContracts();
+    return new RagContracts(new App(), options);
+}
+
+describe('RagContracts Ephemeral Envers', () => {
+    afterEach(() => {
+        resetRagContracts();
+    });
+
+    test('should inherit upstream producers from the parent lane', () => {
+        const ragContracts = createContracts({
+            ephemeralEnvers: {ragEmbed: {'embed-feature': {branch: 'feature/*', parentLane: 'dev'}}}
+        });
+        const lanes = ragContracts.laneResolver;
+
+        const feature = ragContracts.ragEmbeddingBuild.getEnver('embed-feature');
+        const dev = ragContracts.ragEmbeddingBuild.dev;
+        expect(feature).not.toBe(dev);
+        expect(feature.targetRevision.value).toBe('feature/*');
+        expect(feature.targetAWSAccountID).toBe(dev.targetAWSAccountID);
+        expect(feature.targetAWSRegion).toBe(dev.targetAWSRegion);
+
+        expect(lanes.laneOf(feature)).toBe('embed-feature');
+        expect(lanes.parentLane('embed-feature')).toBe('dev');
+        expect(lanes.isEphemeral(feature)).toBe(true);
+        expect(lanes.isEphemeral(dev)).toBe(false);
+
+        // consumes the dev processing bucket, publishes its own embeddings bucket
+        const processingDev = ragContracts.ragDocumentProcessingBuild.dev;
+        expect(ragContracts.ragDocumentProcessingBuild.getEnver('embed-feature')).toBe(processingDev);
+        expect(feature.processedContentSubscription.producer.owner).toBe(processingDev);
+        expect(feature.embeddingStorage.owner).toBe(feature);
+
+        // long-lived downstream envers keep consuming their own lane
+        expect(ragContracts.ragVectorStorageBuild.dev.embeddingSubscription.producer.owner).toBe(dev);
+        expect(() => lanes.validateLanes()).not.toThrow();
+    });
+
+    test('should pair ephemeral envers of the same lane across builds', () => {
+        const ragContracts = createContracts({
+            ephemeralEnvers: {
+                ragEmbed: {'feature': {branch: 'feature/*', parentLane: 'dev'}},
+                ragStore: {'feature': {branch: 'feature/*', parentLane: 'dev'}},
+            }
+        });
+
+        const embedding = ragContracts.ragEmbeddingBuild.getEnver('feature');
+        const vectorStorage = ragContracts.ragVectorStorageBuild.getEnver('feature');
+        expect(vectorStorage.embeddingSubscription.producer.owner).toBe(embedding);
+        expect(ragContracts.ragKnowledgeRetrievalBuild.getEnver('feature')).toBe(ragContracts.ragKnowledgeRetrievalBuild.dev);
+    });
+
+    test('should not register ephemeral ingestion envers with user auth', () => {
+        const longLivedOnly = (createContracts({}).userAuth!.envers[0] as RagUserAuthEnver).callbackUrls.length;
+
+        const ragContracts = createContracts({
+            ephemeralEnvers: {ragIngest: {'ingest-feature': {branch: 'feature/*', parentLane: 'dev'}}}
+        });
+        const userAuth = ragContracts.userAuth!.envers[0] as RagUserAuthEnver;
+        expect(userAuth.callbackUrls.length).toBe(longLivedOnly);
+    });
+
+    test('should reject a long-lived enver consuming an ephemeral one', () => {
+        const ragContracts = createContracts({
+            ephemeralEnvers: {ragEmbed: {'embed-feature': {branch: 'feature/*', parentLane: 'dev'}}}
+        });
+        const feature = ragContracts.ragEmbeddingBuild.getEnver('embed-feature');
+
+        new OdmdCrossRefConsumer(ragContracts.ragVectorStorageBuild.dev, 'ephemeral-embeddings', feature.embeddingStorage);
+        expect(() => ragContracts.laneResolver.validateLanes()).toThrow('Ephemeral envers consumed by long-lived envers');
+    });
+
+    test('should reject invalid ephemeral declarations', () => {
+        expect(() => createContracts({
+            ephemeralEnvers: {ragEmbed: {'embed-feature': {branch: 'feature/*', parentLane: 'staging'}}}
+        })).toThrow("unknown parent lane 'staging'");
+
+        expect(() => createContracts({
+            ephemeralEnvers: {ragEmbed: {dev: {branch: 'feature/*', parentLane: 'prod'}}}
+        })).toThrow("ephemeral lane 'dev' is already a topology lane");
+
+        expect(() => createContracts({
+            ephemeralEnvers: {ragNope: {'feature': {branch: 'feature/*', parentLane: 'dev'}}}
+        })).toThrow('Ephemeral envers declared for unknown builds: ragNope');
+    });
+});
@@ -0,0 +1,69 @@
+import { RagEvaluationBuild } from '../src';
+import { EvaluationReport, EvaluationReportSchema, evaluationRegressions } from '../src/schemas/evaluation';
+import { withRagContracts } from './setup';
+
+function report(runId: string, metrics: EvaluationReport['metrics'], datasetVersion = '3'): EvaluationReport {
+    return EvaluationReportSchema.parse({
+        runId,
+        lane: 'dev',
+        generationRevision: 'abcdef1',
+        datasetVersion,
+        startedAt: '2026-01-01T00:00:00Z',
+        completedAt: '2026-01-01T00:10:00Z',
+        metrics,
+        questions: []
+    });
+}
+
+describe('RAG Evaluation', () => {
+    const prod = report('prod-run', {groundedness: 0.9, retrievalHitRate: 0.8, answerRelevance: 0.85});
+
+    test('should pass promotion when no metric dropped beyond the tolerance', () => {
+        const dev = report('dev-run', {groundedness: 0.89, retrievalHitRate: 0.84, answerRelevance: 0.85});
+        expect(evaluationRegressions(prod, dev, 0.02)).toEqual([]);
+    });
+
+    test('should report regressed metrics', () => {
+        const dev = report('dev-run', {groundedness: 0.7, retrievalHitRate: 0.8, answerRelevance: 0.8});
+        expect(evaluationRegressions(prod, dev, 0.02)).toEqual([
+            {metric: 'groundedness', baseline: 0.9, candidate: 0.7},
+            {metric: 'answerRelevance', baseline: 0.85, candidate: 0.8},
+        ]);
+    });
+
+    test('should not compare runs of different golden datasets', () => {
+        const dev = report('dev-run', prod.metrics, '4');
+        expect(() => evaluationRegressions(prod, dev)).toThrow('used different datasets');
+    });
+
+    describe('contracts', () => {
+        const ragContracts = withRagContracts();
+
+        test('should create one evaluation enver per lane outside the pipeline', () => {
+            const build = ragContracts().ragEvaluationBuild;
+            expect(build).toBeInstanceOf(RagEvaluationBuild);
+            expect(build.buildId).toBe('ragEval');
+            expect(ragContracts().githubRepos.ragEvaluation.name).toBe('rag-evaluation-service');
+            expect(build.envers).toHaveLength(Object.keys(ragContracts().enverTopology).length);
+            expect(ragContracts().laneResolver.pipeline).not.toContain(build);
+        });
+
+        test('should consume generation endpoints, conversations and feedback of its lane', () => {
+            Object.keys(ragContracts().enverTopology).forEach(laneName => {
+                const generationApi = ragContracts().ragGenerationBuild.getEnver(laneName).generationApi;
+                const evaluation = ragContracts().ragEvaluationBuild.getEnver(laneName);
+
+                expect(evaluation.generationApiEndpoint.producer).toBe(generationApi.generationApi);
+                expect(evaluation.generationRequestSchema.producer).toBe(generationApi.generationRequestSchema);
+                expect(evaluation.generationResponseSchema.producer).toBe(generationApi.generationResponseSchema);
+                expect(evaluation.conversationSchema.producer).toBe(generationApi.conversationSchema);
+                expect(evaluation.feedbackSchema.producer).toBe(generationApi.feedbackSchema);
+
+                expect(evaluation.evaluationReports.evaluationReportSchemaS3Url).toBeDefined();
+                expect(evaluation.goldenDataset.goldenQuestionSchemaS3Url).toBeDefined();
+            });
+
+            expect(() => ragContracts().laneResolver.validateLanes()).not.toThrow();
+        });
+    });
+});
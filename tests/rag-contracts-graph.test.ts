@@ -0,0 +1,63 @@
+import { App } from 'aws-cdk-lib';
+import { RagContracts } from '../src';
+
+describe('RagContracts Contract Graph', () => {
+    process.env.CDK_CLI_VERSION = '2.0.0';
+    process.env.CDK_DEFAULT_REGION = 'us-east-1';
+    process.env.CDK_DEFAULT_ACCOUNT = '123456789012';
+
+    const app = new App();
+    const ragContracts = new RagContracts(app);
+    const graph = ragContracts.contractGraph;
+
+    test('should contain every build and enver', () => {
+        ragContracts.odmdBuilds.forEach(build => {
+            expect(graph.nodes.find(n => n.kind == 'build' && n.id == build.node.path)).toBeDefined();
+            build.envers.forEach(enver => {
+                const node = graph.nodes.find(n => n.id == enver.node.path);
+                expect(node?.kind).toBe('enver');
+                expect(node?.parent).toBe(build.node.path);
+            });
+        });
+
+        const genProd = graph.nodes.find(n => n.id == ragContracts.ragGenerationBuild.prod.node.path);
+        expect(genProd?.lane).toBe('prod');
+    });
+
+    test('should nest producer children under their parent producer', () => {
+        const proxy = ragContracts.ragKnowledgeRetrievalBuild.dev.vectorSearchProxyApi;
+
+        const proxyApiNode = graph.nodes.find(n => n.id == proxy.proxyApi.node.path);
+        expect(proxyApiNode?.kind).toBe('producer');
+        expect(proxyApiNode?.parent).toBe(proxy.node.path);
+
+        const homeServerConfigNode = graph.nodes.find(n => n.id == proxy.homeServerConfig.node.path);
+        expect(homeServerConfigNode?.parent).toBe(proxy.proxyApi.node.path);
+
+        const ids = graph.nodes.map(n => n.id);
+        expect(new Set(ids).size).toBe(ids.length);
+    });
+
+    test('should record consumer options on edges', () => {
+        const generationDev = ragContracts.ragGenerationBuild.dev;
+        const edge = graph.edges.find(e => e.consumer == generationDev.vectorSearchProxySubscription!.node.path);
+
+        expect(edge).toBeDefined();
+        expect(edge!.producer).toBe(ragContracts.ragKnowledgeRetrievalBuild.dev.vectorSearchProxyApi.vectorSearchEndpoint.node.path);
+        expect(edge!.trigger).toBe('no');
+        expect(edge!.defaultIfAbsent).toBe('default-vector-search-api');
+    });
+
+    test('should render JSON, Mermaid and DOT', () => {
+        expect(JSON.parse(ragContracts.exportContractGraph('json'))).toEqual(graph);
+
+        const mermaid = ragContracts.exportContractGraph('mermaid');
+        expect(mermaid.startsWith('graph LR')).toBe(true);
+        expect(mermaid).toContain('trigger: no, default: default-vector-search-api');
+
+        const dot = ragContracts.exportContractGraph('dot');
+        expect(dot.startsWith('digraph contracts {')).toBe(true);
+        expect(dot).toContain('subgraph cluster_');
+        expect(dot.trim().endsWith('}')).toBe(true);
+    });
+});
@@ -0,0 +1,75 @@
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import {
+    HybridSearchRequestSchema,
+    HybridSearchResponseSchema
+} from '../src/schemas/hybrid-search';
+import { checkSchemaCompatibility } from '../src/utils/schema-compatibility';
+import { withRagContracts } from './setup';
+
+describe('Hybrid Search Contracts', () => {
+    test('should accept semantic-only and hybrid requests', () => {
+        expect(HybridSearchRequestSchema.safeParse({tenantId: 'team-a', query: 'ERR-4021', topK: 10}).success).toBe(true);
+        expect(HybridSearchRequestSchema.safeParse({
+            tenantId: 'team-a',
+            query: 'ERR-4021',
+            topK: 10,
+            hybrid: {mode: 'hybrid', fusion: 'weighted-sum', weights: {lexical: 0.7, semantic: 0.3}}
+        }).success).toBe(true);
+
+        expect(HybridSearchRequestSchema.safeParse({
+            tenantId: 'team-a',
+            query: 'ERR-4021',
+            topK: 10,
+            hybrid: {mode: 'hybrid', weights: {lexical: 1.5, semantic: 0}}
+        }).success).toBe(false);
+    });
+
+    test('should carry lexical and semantic scores per hit', () => {
+        const response = HybridSearchResponseSchema.parse({
+            mode: 'hybrid',
+            fusion: 'rrf',
+            hits: [
+                {tenantId: 'team-a', chunkId: 'c1', documentId: 'd1', content: 'ERR-4021 means...', score: 0.03, scores: {lexical: 12.4, fused: 0.03}},
+                {tenantId: 'team-a', chunkId: 'c2', documentId: 'd2', content: 'error codes', score: 0.02, scores: {lexical: 3.1, semantic: 0.82, fused: 0.02}}
+            ]
+        });
+        expect(response.hits[0].scores.semantic).toBeUndefined();
+
+        expect(HybridSearchResponseSchema.safeParse({
+            mode: 'hybrid',
+            hits: [{tenantId: 'team-a', chunkId: 'c1', documentId: 'd1', content: '', score: 1, scores: {lexical: 1}}]
+        }).success).toBe(false);
+    });
+
+    test('should stay backward compatible for semantic-only clients', () => {
+        const semanticOnly = HybridSearchRequestSchema.omit({hybrid: true});
+        const report = checkSchemaCompatibility(
+            zodToJsonSchema(semanticOnly),
+            zodToJsonSchema(HybridSearchRequestSchema)
+        );
+        expect(report.compatibility).not.toBe('breaking');
+    });
+
+    describe('contracts', () => {
+        const ragContracts = withRagContracts();
+
+        test('should produce a lexical index next to the vector index', () => {
+            const lexicalIndex = ragContracts().ragVectorStorageBuild.dev.lexicalIndex;
+
+            expect(lexicalIndex.lexicalIndexName).toBe(lexicalIndex.children![0]);
+            expect(lexicalIndex.tokenizerConfig).toBe(lexicalIndex.children![1]);
+            expect(lexicalIndex.documentTermSchemaS3Url).toBe(lexicalIndex.children![2]);
+        });
+
+        test('should let retrieval consume the lexical index of its lane', () => {
+            Object.keys(ragContracts().enverTopology).forEach(laneName => {
+                const vectorStorage = ragContracts().ragVectorStorageBuild.getEnver(laneName);
+                const retrieval = ragContracts().ragKnowledgeRetrievalBuild.getEnver(laneName);
+
+                expect(retrieval.lexicalIndexName.producer).toBe(vectorStorage.lexicalIndex.lexicalIndexName);
+                expect(retrieval.lexicalTokenizerConfig.producer).toBe(vectorStorage.lexicalIndex.tokenizerConfig);
+                expect(retrieval.documentTermSchemaS3Url.producer).toBe(vectorStorage.lexicalIndex.documentTermSchemaS3Url);
+            });
+        });
+    });
+});
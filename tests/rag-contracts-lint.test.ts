@@ -0,0 +1,189 @@
+import { RagUserAuthEnver } from '../src/services/user-auth';
+import {
+    ContractLintOptions,
+    contractLintMatchers,
+    lintContractGraph,
+    lintContracts
+} from '../src/utils/contract-lint';
+import type { ContractGraph } from '../src/utils/contract-graph';
+import { withRagContracts } from './setup';
+
+declare global {
+    namespace jest {
+        interface Matchers<R> {
+            toPassContractLint(options?: ContractLintOptions): R;
+        }
+    }
+}
+
+expect.extend(contractLintMatchers);
+
+describe('RagContracts Contract Lint', () => {
+    const ragContracts = withRagContracts();
+
+    test('should report placeholder defaults on prod envers only', () => {
+        const report = lintContracts(ragContracts());
+        const placeholders = report.findings.filter(f => f.rule == 'placeholder-default-on-prod');
+
+        expect(placeholders.map(f => f.node))
+            .toContain(ragContracts().ragGenerationBuild.prod.vectorSearchProxySubscription!.node.path);
+        expect(placeholders.map(f => f.node))
+            .not.toContain(ragContracts().ragGenerationBuild.dev.vectorSearchProxySubscription!.node.path);
+        expect(placeholders.every(f => f.severity == 'error')).toBe(true);
+
+        expect(report.findings.filter(f => f.rule == 'cross-lane-consumer')).toEqual([]);
+        expect(report.findings.filter(f => f.rule == 'duplicate-node-id')).toEqual([]);
+        expect(report.findings.filter(f => f.rule == 'dependency-cycle')).toEqual([]);
+    });
+
+    test('should report placeholder defaults of laneless envers consuming prod producers', () => {
+        const userAuth = ragContracts().userAuth!.envers[0] as RagUserAuthEnver;
+        const prodIngestion = ragContracts().ragDocumentIngestionBuild.prod;
+        const placeholders = lintContracts(ragContracts()).findings
+            .filter(f => f.rule == 'placeholder-default-on-prod' && f.enver == userAuth.node.path)
+            .map(f => f.node);
+
+        const consumerOf = (producer: unknown) =>
+            [...userAuth.callbackUrls, ...userAuth.logoutUrls].find(c => c.producer === producer)!.node.path;
+        expect(placeholders.sort()).toEqual([
+            consumerOf(prodIngestion.authCallbackUrl),
+            consumerOf(prodIngestion.logoutUrl),
+        ].sort());
+    });
+
+    test('should pass with the known prod placeholders turned off per enver', () => {
+        const userAuth = ragContracts().userAuth!.envers[0];
+        expect(ragContracts()).not.toPassContractLint();
+        expect(ragContracts()).toPassContractLint({
+            disabledRulesPerEnver: {
+                [userAuth.node.path]: ['placeholder-default-on-prod'],
+                'ragIngest/prod': ['placeholder-default-on-prod'],
+                'ragStore/prod': ['placeholder-default-on-prod'],
+                'ragRetr/prod': ['placeholder-default-on-prod'],
+                'ragGen/prod': ['placeholder-default-on-prod'],
+            }
+        });
+    });
+});
+
+describe('RagContracts Contract Lint with reranking', () => {
+    const ragContracts = withRagContracts({reranking: true});
+
+    test('should deploy generation, reranking and retrieval without waiting on each other', () => {
+        expect(lintContracts(ragContracts()).findings.filter(f => f.rule == 'dependency-cycle')).toEqual([]);
+    });
+});
+
+describe('Contract Lint Rules', () => {
+    const graph: ContractGraph = {
+        nodes: [
+            {id: 'C/a', kind: 'build', label: 'a', buildId: 'a'},
+            {id: 'C/a/dev', kind: 'enver', label: 'dev', parent: 'C/a', buildId: 'a', lane: 'dev', account: '1'},
+            {id: 'C/a/prod', kind: 'enver', label: 'prod', parent: 'C/a', buildId: 'a', lane: 'prod', account: '2'},
+            {id: 'C/a/dev/api', kind: 'producer', label: 'api', parent: 'C/a/dev', buildId: 'a'},
+            {id: 'C/a/dev/api/url', kind: 'producer', label: 'url', parent: 'C/a/dev/api', buildId: 'a'},
+            {id: 'C/a/dev/api/schema', kind: 'producer', label: 'schema', parent: 'C/a/dev/api', buildId: 'a'},
+            {id: 'C/a/prod/api', kind: 'producer', label: 'api', parent: 'C/a/prod', buildId: 'a'},
+            {id: 'C/b', kind: 'build', label: 'b', buildId: 'b'},
+            {id: 'C/b/prod', kind: 'enver', label: 'prod', parent: 'C/b', buildId: 'b', lane: 'prod', account: '2'},
+            {id: 'C/b/prod/api-url', kind: 'consumer', label: 'api-url', parent: 'C/b/prod', buildId: 'b'},
+            {id: 'C/b/prod/api-url', kind: 'consumer', label: 'api-url', parent: 'C/b/prod', buildId: 'b'},
+        ],
+        edges: [
+            {consumer: 'C/b/prod/api-url', producer: 'C/a/dev/api/url', trigger: 'no', defaultIfAbsent: 'http://localhost:3000'},
+        ]
+    };
+
+    test('should report each rule with its severity', () => {
+        const report = lintContractGraph(graph);
+
+        expect(report.findings.filter(f => f.rule == 'unconsumed-producer').map(f => f.node))
+            .toEqual(['C/a/dev/api/schema', 'C/a/prod/api']);
+        expect(report.findings.filter(f => f.rule == 'placeholder-default-on-prod').map(f => f.enver))
+            .toEqual(['C/b/prod']);
+        expect(report.findings.filter(f => f.rule == 'cross-lane-consumer')).toHaveLength(1);
+        expect(report.findings.filter(f => f.rule == 'duplicate-node-id')).toHaveLength(1);
+        expect(report.warningCount).toBe(2);
+        expect(report.errorCount).toBe(3);
+
+        expect(JSON.parse(JSON.stringify(report))).toEqual(report);
+    });
+
+    test('should turn rules off globally and per enver', () => {
+        const perEnver = lintContractGraph(graph, {
+            disabledRulesPerEnver: {
+                'b/prod': ['placeholder-default-on-prod', 'cross-lane-consumer'],
+                'C/a/prod': ['unconsumed-producer'],
+            }
+        });
+        expect(perEnver.findings.map(f => f.rule).sort()).toEqual(['duplicate-node-id', 'unconsumed-producer']);
+
+        const global = lintContractGraph(graph, {disabledRules: ['unconsumed-producer', 'duplicate-node-id']});
+        expect(global.warningCount).toBe(0);
+        expect(global.findings.filter(f => f.rule == 'duplicate-node-id')).toEqual([]);
+    });
+
+    test('should report placeholder defaults of laneless envers consuming prod producers', () => {
+        const laneless: ContractGraph = {
+            nodes: [
+                ...graph.nodes.filter(n => n.buildId == 'a'),
+                {id: 'C/auth', kind: 'build', label: 'auth', buildId: 'auth'},
+                {id: 'C/auth/enver', kind: 'enver', label: 'enver', parent: 'C/auth', buildId: 'auth', account: '1'},
+                {id: 'C/auth/enver/dev-callback', kind: 'consumer', label: 'dev-callback', parent: 'C/auth/enver', buildId: 'auth'},
+                {id: 'C/auth/enver/prod-callback', kind: 'consumer', label: 'prod-callback', parent: 'C/auth/enver', buildId: 'auth'},
+            ],
+            edges: [
+                {consumer: 'C/auth/enver/dev-callback', producer: 'C/a/dev/api/url', defaultIfAbsent: 'http://localhost:1234/callback'},
+                {consumer: 'C/auth/enver/prod-callback', producer: 'C/a/prod/api', defaultIfAbsent: 'http://localhost:1234/callback'},
+            ]
+        };
+
+        const placeholders = lintContractGraph(laneless).findings.filter(f => f.rule == 'placeholder-default-on-prod');
+        expect(placeholders.map(f => f.node)).toEqual(['C/auth/enver/prod-callback']);
+        expect(placeholders[0].message)
+            .toBe("prod-callback falls back to placeholder 'http://localhost:1234/callback' for C/a/prod/api on prod");
+    });
+
+    test('should report envers consuming each other without defaults', () => {
+        const cyclic: ContractGraph = {
+            nodes: [
+                ...graph.nodes.filter(n => n.buildId == 'a'),
+                {id: 'C/b', kind: 'build', label: 'b', buildId: 'b'},
+                {id: 'C/b/dev', kind: 'enver', label: 'dev', parent: 'C/b', buildId: 'b', lane: 'dev', account: '1'},
+                {id: 'C/b/dev/status', kind: 'producer', label: 'status', parent: 'C/b/dev', buildId: 'b'},
+                {id: 'C/b/dev/api-url', kind: 'consumer', label: 'api-url', parent: 'C/b/dev', buildId: 'b'},
+                {id: 'C/a/dev/status', kind: 'consumer', label: 'status', parent: 'C/a/dev', buildId: 'a'},
+            ],
+            edges: [
+                {consumer: 'C/b/dev/api-url', producer: 'C/a/dev/api/url'},
+                {consumer: 'C/a/dev/status', producer: 'C/b/dev/status'},
+            ]
+        };
+
+        const cycles = lintContractGraph(cyclic).findings.filter(f => f.rule == 'dependency-cycle');
+        expect(cycles.map(f => [f.node, f.severity])).toEqual([['C/b/dev/api-url', 'error']]);
+        expect(cycles[0].message).toBe('envers wait on each other to deploy: C/a/dev → C/b/dev → C/a/dev');
+
+        cyclic.edges[1].defaultIfAbsent = 'default-status';
+        expect(lintContractGraph(cyclic).findings.filter(f => f.rule == 'dependency-cycle')).toEqual([]);
+    });
+
+    test('should treat configured lanes as prod', () => {
+        const report = lintContractGraph(graph, {prodLanes: ['staging']});
+        expect(report.findings.filter(f => f.rule == 'placeholder-default-on-prod')).toEqual([]);
+    });
+
+    test('should let an ephemeral lane consume from its parent lane', () => {
+        const ephemeral: ContractGraph = {
+            nodes: [
+                ...graph.nodes.filter(n => n.buildId == 'a'),
+                {id: 'C/b/feature', kind: 'enver', label: 'feature', parent: 'C/b', buildId: 'b', lane: 'feature', parentLane: 'dev', account: '1'},
+                {id: 'C/b/feature/api-url', kind: 'consumer', label: 'api-url', parent: 'C/b/feature', buildId: 'b'},
+            ],
+            edges: [
+                {consumer: 'C/b/feature/api-url', producer: 'C/a/dev/api/url'},
+            ]
+        };
+        expect(lintContractGraph(ephemeral).findings.filter(f => f.rule == 'cross-lane-consumer')).toEqual([]);
+    });
+});
@@ -0,0 +1,93 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { App, Stack } from 'aws-cdk-lib';
+import { LOCAL_BUILD_ACCOUNT, LocalDirSchemaStore, RagContracts, deploySchema, localEnverConfig, localStandInValue } from '../src';
+import { DocumentMetadataSchema } from '../src/schemas/document-metadata';
+import { resetRagContracts } from './setup';
+
+describe('RagContracts Local Mode', () => {
+    let bucketDir: string;
+
+    beforeAll(() => {
+        bucketDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rag-local-'));
+    });
+
+    afterAll(() => {
+        fs.rmSync(bucketDir, {recursive: true, force: true});
+    });
+
+    beforeEach(() => {
+        resetRagContracts();
+        delete process.env.CDK_DEFAULT_ACCOUNT;
+        delete process.env.CDK_DEFAULT_REGION;
+        delete process.env.CODEBUILD_BUILD_ARN;
+    });
+
+    afterEach(() => {
+        resetRagContracts();
+    });
+
+    test('should construct without any AWS environment variables', () => {
+        const ragContracts = new RagContracts(new App(), {local: true});
+
+        expect(ragContracts.isLocal).toBe(true);
+        expect(ragContracts.buildAccount).toBe('000000000000');
+        expect(ragContracts.buildRegion).toBe('us-east-2');
+        expect(Object.keys(ragContracts.enverTopology)).toEqual(['dev', 'prod', 'local']);
+        expect(ragContracts.ragGenerationBuild.getEnver('local').targetAWSAccountID).toBe(LOCAL_BUILD_ACCOUNT);
+        expect(ragContracts.ragGenerationBuild.dev.targetAWSAccountID).toBe(ragContracts.accounts.workspace1);
+    });
+
+    test('should take build account and region from options', () => {
+        const ragContracts = new RagContracts(new App(), {buildAccount: '111122223333', buildRegion: 'eu-west-1'});
+
+        expect(ragContracts.isLocal).toBe(false);
+        expect(ragContracts.buildAccount).toBe('111122223333');
+        expect(ragContracts.buildRegion).toBe('eu-west-1');
+        expect(Object.keys(ragContracts.enverTopology)).toEqual(['dev', 'prod']);
+    });
+
+    test('should resolve local lane producers to localhost stand-ins', () => {
+        const standIns = {bucketDir: '/tmp/rag-local', httpEndpoint: 'http://localhost:8080/'};
+        const ragContracts = new RagContracts(new App(), {local: standIns});
+
+        const processingLocal = ragContracts.ragDocumentProcessingBuild.getEnver('local');
+        const bucket = localStandInValue(standIns, processingLocal.processedContentStorage.processedContentBucket);
+        expect(bucket.startsWith('file://' + path.join('/tmp/rag-local', 'ragProc'))).toBe(true);
+
+        const endpoint = localStandInValue(standIns, processingLocal.statusApi.statusApiEndpoint);
+        expect(endpoint.startsWith('http://localhost:8080/ragProc/')).toBe(true);
+
+        const ingestionLocal = ragContracts.ragDocumentIngestionBuild.getEnver('local');
+        expect(localStandInValue(standIns, ingestionLocal.documentStorageResources.quarantineBucket))
+            .toMatch(/^file:\/\/\/tmp\/rag-local\/ragIngest\//);
+        expect(localStandInValue(standIns, ragContracts.ragEvaluationBuild.getEnver('local').evaluationReports))
+            .toMatch(/^file:\/\/\/tmp\/rag-local\/ragEval\//);
+        expect(localStandInValue(standIns, ragContracts.ragGenerationBuild.getEnver('local').conversationStore))
+            .toMatch(/^http:\/\/localhost:8080\/ragGen\//);
+
+        const generationLocal = ragContracts.ragGenerationBuild.getEnver('local');
+        const config = localEnverConfig(ragContracts, generationLocal).split('\n');
+        expect(config.find(l => l.startsWith(generationLocal.vectorSearchProxySubscription!.node.id + ':')))
+            .toContain('http://localhost:8080/ragRetr/');
+
+        expect(() => localEnverConfig(ragContracts, ragContracts.ragGenerationBuild.dev)).toThrow('not in a local lane');
+    });
+
+    test('should resolve schema children to the url deploySchema publishes to a local schema store', async () => {
+        const standIns = {bucketDir, httpEndpoint: 'http://localhost:8080'};
+        const ragContracts = new RagContracts(new App(), {local: standIns});
+        const ingestionLocal = ragContracts.ragDocumentIngestionBuild.getEnver('local');
+        const stack = new Stack(ragContracts.node.root as App, 'local-schema-test', {
+            env: {account: ingestionLocal.targetAWSAccountID, region: ingestionLocal.targetAWSRegion}
+        });
+        const store = new LocalDirSchemaStore(bucketDir);
+        const producer = ingestionLocal.documentStorageResources.docMetadataSchemaS3Url;
+
+        const published = await deploySchema(stack, DocumentMetadataSchema, producer, store);
+        const standIn = localStandInValue(standIns, producer);
+        expect(standIn).toBe(published.replace(/@[^@]+$/, '@latest'));
+        expect(await store.resolve(standIn)).toBe(await store.resolve(published));
+    });
+});
@@ -0,0 +1,84 @@
+import { AnyOdmdEnVer } from '@ondemandenv/contracts-lib-base';
+import { buildOpenApiDocument, buildOpenApiDocuments, OPENAPI_JWT_SCHEME, openApiRoutes } from '../src/utils/openapi';
+import { withRagContracts } from './setup';
+
+describe('OpenAPI', () => {
+    describe('contracts', () => {
+        const ragContracts = withRagContracts({local: true});
+
+        test('should take the routes the status APIs, the vector search proxy and the generation API declare', () => {
+            const routed = ragContracts().laneResolver.pipeline
+                .map(b => b.getEnver('local'))
+                .filter(e => openApiRoutes(e).length > 0);
+            expect(routed.map(e => e.owner.buildId)).toEqual(['ragProc', 'ragEmbed', 'ragStore', 'ragRetr', 'ragGen']);
+
+            const operationIds = routed.flatMap(e => openApiRoutes(e).map(r => r.route.operationId));
+            expect(new Set(operationIds).size).toBe(operationIds.length);
+
+            const embedding = ragContracts().ragEmbeddingBuild.getEnver('local');
+            expect(openApiRoutes(embedding).map(r => `${r.route.method} ${r.route.path}`)).toEqual(['get /status/{docId}']);
+            expect(openApiRoutes(embedding)[0].endpoint).toBe(embedding.statusApi);
+            expect(openApiRoutes(embedding)[0].response!.producer).toBe(embedding.statusApi.statusResponseSchema);
+
+            const generation = ragContracts().ragGenerationBuild.getEnver('local');
+            expect(openApiRoutes(generation).map(r => r.endpoint)).toEqual(Array(3).fill(generation.generationApi.generationApi));
+        });
+
+        test('should combine the status path with the status response schema', () => {
+            const processing = ragContracts().ragDocumentProcessingBuild.getEnver('local');
+            const document = buildOpenApiDocument(processing, {servers: ['http://localhost:8080/proc']});
+
+            expect(document.openapi).toBe('3.1.0');
+            expect(document.servers).toEqual([{url: 'http://localhost:8080/proc'}]);
+
+            const operation = document.paths['/status/{docId}'].get!;
+            expect(operation.parameters).toEqual([{name: 'docId', in: 'path', required: true, schema: {type: 'string'}}]);
+            expect(operation.responses['200'].content!['application/json'].schema).toEqual({$ref: '#/components/schemas/DocumentStatus'});
+            expect(Object.keys(operation.responses)).toEqual(['200', '404', '401']);
+            expect(operation['x-odmd-producer']).toBe(processing.statusApi.statusApiEndpoint.node.path);
+
+            expect(document.components.schemas.DocumentStatus.$schema).toBeUndefined();
+            expect(document.components.schemas.DocumentStatus.properties).toEqual(expect.objectContaining({documentId: {type: 'string'}}));
+        });
+
+        test('should describe the generation API with request and response schemas', () => {
+            const document = buildOpenApiDocument(ragContracts().ragGenerationBuild.getEnver('local'));
+
+            expect(Object.keys(document.paths)).toEqual(['/generate', '/conversations/{conversationId}', '/feedback']);
+            expect(document.paths['/generate'].post!.requestBody!.content['application/json'].schema)
+                .toEqual({$ref: '#/components/schemas/GenerationRequest'});
+            expect(Object.keys(document.components.schemas)).toEqual(['GenerationRequest', 'GenerationResponse', 'Conversation', 'Feedback']);
+        });
+
+        test('should secure every operation but health with the user-auth JWT', () => {
+            const retrieval = ragContracts().ragKnowledgeRetrievalBuild.getEnver('local');
+            const document = buildOpenApiDocument(retrieval);
+
+            expect(document.security).toEqual([{[OPENAPI_JWT_SCHEME]: []}]);
+            expect(document.components.securitySchemes[OPENAPI_JWT_SCHEME]).toEqual(expect.objectContaining({
+                type: 'http', scheme: 'bearer', bearerFormat: 'JWT'
+            }));
+            expect(document.paths['/health'].get!.security).toEqual([]);
+            expect(document.paths['/search'].post!.security).toBeUndefined();
+
+            const provider = 'cognito-idp.us-east-2.amazonaws.com/us-east-2_abc';
+            const resolved = buildOpenApiDocument(retrieval, {enverConfigLines: [`${retrieval.authProviderName.node.id}:${provider}`]});
+            expect(resolved.components.securitySchemes[OPENAPI_JWT_SCHEME]).toEqual(expect.objectContaining({
+                type: 'openIdConnect',
+                openIdConnectUrl: `https://${provider}/.well-known/openid-configuration`
+            }));
+        });
+
+        test('should have a document for every enver with HTTP API producers', () => {
+            const documents = buildOpenApiDocuments(ragContracts());
+
+            const expected = ragContracts().odmdBuilds
+                .flatMap(b => b.envers as AnyOdmdEnVer[])
+                .filter(e => openApiRoutes(e).length > 0)
+                .map(e => e.node.path);
+            expect(Object.keys(documents)).toEqual(expected);
+            expect(() => buildOpenApiDocument(ragContracts().ragDocumentIngestionBuild.getEnver('local')))
+                .toThrow('ragIngest has no HTTP API producers');
+        });
+    });
+});
@@ -0,0 +1,184 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { App, Stack } from 'aws-cdk-lib';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { deploySchema } from '../src';
+import { RagDocumentProcessingEnver } from '../src/services/document-processing';
+import { PayloadValidationError, PayloadValidationReport, PayloadValidator } from '../src/utils/payload-validator';
+import { OfflineSchemaTypeSource, SchemaTypeSource } from '../src/utils/schema-type-generator';
+import { LocalDirSchemaStore } from '../src/utils/schema-store';
+import { DocumentTombstone, DocumentTombstoneSchema } from '../src/schemas/document-tombstone';
+import { withRagContracts } from './setup';
+
+const TOMBSTONE: DocumentTombstone = {
+    documentId: 'doc-1',
+    reason: 'replaced',
+    replacedByDocumentId: 'doc-2',
+    deletedAt: '2026-01-01T00:00:00Z'
+};
+
+const SCHEMA_URL = 's3://schemas/123456789012/main/tombstone-schema.json@v1';
+const TOMBSTONE_JSON_SCHEMA = JSON.stringify(zodToJsonSchema(DocumentTombstoneSchema));
+
+describe('Payload Validator', () => {
+    test('should carry the report in the error strict mode throws', () => {
+        const report: PayloadValidationReport = {
+            consumerId: 'tombstone-schema', schemaUrl: SCHEMA_URL, version: 'v1', valid: false,
+            issues: [{path: 'reason', code: 'invalid_enum_value', message: 'Invalid enum value'}]
+        };
+
+        const error = new PayloadValidationError(report);
+        expect(error).toBeInstanceOf(Error);
+        expect(error.name).toBe('PayloadValidationError');
+        expect(error.report).toBe(report);
+        expect(error.message).toBe(`tombstone-schema payload does not match ${SCHEMA_URL}:\n  reason [invalid_enum_value]: Invalid enum value`);
+    });
+
+    describe('contracts', () => {
+        const ragContracts = withRagContracts({local: true});
+        let processingLocal: RagDocumentProcessingEnver;
+        let tmpDir: string;
+
+        function offlineSource(schemas: Record<string, string>) {
+            return new OfflineSchemaTypeSource([`${processingLocal.tombstoneSchemaS3Url.node.id}:${SCHEMA_URL}`], schemas);
+        }
+
+        function validatorOf(jsonSchema: object) {
+            return new PayloadValidator(processingLocal, {}, offlineSource({[SCHEMA_URL]: JSON.stringify(jsonSchema)}));
+        }
+
+        beforeAll(() => {
+            processingLocal = ragContracts().ragDocumentProcessingBuild.getEnver('local');
+            tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'payload-validator-'));
+        });
+
+        afterAll(() => {
+            fs.rmSync(tmpDir, {recursive: true, force: true});
+        });
+
+        test('should report invalid fields in strict mode', async () => {
+            const validator = new PayloadValidator(processingLocal, {}, offlineSource({[SCHEMA_URL]: TOMBSTONE_JSON_SCHEMA}));
+            const consumer = processingLocal.tombstoneSchemaS3Url;
+
+            expect(await validator.validate(consumer, TOMBSTONE)).toEqual({
+                consumerId: 'tombstone-schema', schemaUrl: SCHEMA_URL, version: 'v1', valid: true, issues: []
+            });
+
+            const invalid = validator.validate(consumer, {...TOMBSTONE, reason: 'expired', documentId: undefined});
+            await expect(invalid).rejects.toThrow(PayloadValidationError);
+            await expect(invalid).rejects.toThrow('tombstone-schema payload does not match');
+            await expect(invalid).rejects.toThrow(/documentId \[invalid_type]/);
+            await expect(invalid).rejects.toThrow(/reason \[invalid_enum_value]/);
+            await expect(invalid).rejects.toHaveProperty('report.issues', [
+                expect.objectContaining({path: 'documentId', code: 'invalid_type'}),
+                expect.objectContaining({path: 'reason', code: 'invalid_enum_value'})
+            ]);
+        });
+
+        test('should let invalid payloads through in warn mode', async () => {
+            const warnings: PayloadValidationReport[] = [];
+            const validator = new PayloadValidator(processingLocal, {mode: 'warn', onWarning: r => warnings.push(r)},
+                offlineSource({[SCHEMA_URL]: TOMBSTONE_JSON_SCHEMA}));
+
+            const report = await validator.validate(processingLocal.tombstoneSchemaS3Url, {...TOMBSTONE, deletedAt: 'yesterday'});
+            expect(report.valid).toBe(false);
+            expect(report.issues).toEqual([expect.objectContaining({path: 'deletedAt', code: 'invalid_string'})]);
+            expect(warnings).toEqual([report]);
+        });
+
+        test('should compile each schema url once', async () => {
+            const otherUrl = 's3://schemas/123456789012/other/tombstone-schema.json@v1';
+            const lines = [`${processingLocal.tombstoneSchemaS3Url.node.id}:${SCHEMA_URL}`];
+            const schemas: Record<string, string> = {
+                [SCHEMA_URL]: TOMBSTONE_JSON_SCHEMA,
+                [otherUrl]: JSON.stringify(zodToJsonSchema(DocumentTombstoneSchema.omit({deletedAt: true})))
+            };
+            const source: SchemaTypeSource = {
+                enverConfigLines: async () => lines,
+                fetchSchema: async url => schemas[url]
+            };
+            const fetchSchema = jest.spyOn(source, 'fetchSchema');
+            const validator = new PayloadValidator(processingLocal, {}, source);
+            const consumer = processingLocal.tombstoneSchemaS3Url;
+
+            await validator.validate(consumer, TOMBSTONE);
+            await validator.validate(consumer, {...TOMBSTONE, reason: 'deleted'});
+            expect(fetchSchema).toHaveBeenCalledTimes(1);
+
+            lines[0] = `${consumer.node.id}:${otherUrl}`;
+            validator.refresh();
+            expect((await validator.validate(consumer, {documentId: 'doc-1', reason: 'deleted'})).schemaUrl).toBe(otherUrl);
+            await expect(validator.validate(consumer, TOMBSTONE)).rejects.toThrow(/<payload> \[unrecognized_keys]/);
+            expect(fetchSchema).toHaveBeenCalledTimes(2);
+        });
+
+        test('should follow nullable fields and nested $ref as zod-to-json-schema emits them', async () => {
+            const Replacement = z.object({documentId: z.string(), version: z.number().int()});
+            const jsonSchema = zodToJsonSchema(z.object({
+                current: Replacement,
+                previous: Replacement.nullable(),
+                history: z.array(Replacement),
+                note: z.string().nullable(),
+                by: z.union([z.string(), Replacement])
+            }));
+            expect(jsonSchema).toHaveProperty('properties.history.items.$ref', '#/properties/current');
+            expect(jsonSchema).toHaveProperty('properties.note.type', ['string', 'null']);
+            const validator = validatorOf(jsonSchema);
+            const consumer = processingLocal.tombstoneSchemaS3Url;
+            const current = {documentId: 'doc-2', version: 2};
+
+            expect((await validator.validate(consumer, {current, previous: null, history: [current], note: null, by: current})).valid).toBe(true);
+            await expect(validator.validate(consumer, {current, previous: {documentId: 'doc-1'}, history: [], note: 'x', by: 'ops'}))
+                .rejects.toThrow(/previous \[invalid_union]/);
+            await expect(validator.validate(consumer, {current, previous: null, history: [{...current, version: 1.5}], note: null, by: 'ops'}))
+                .rejects.toThrow(/history\.0\.version \[invalid_type]/);
+        });
+
+        test('should keep type next to anyOf and match exactly one oneOf option', async () => {
+            const consumer = processingLocal.tombstoneSchemaS3Url;
+            const typed = validatorOf({type: 'string', anyOf: [{minLength: 3}, {pattern: '^doc-'}]});
+            expect((await typed.validate(consumer, 'doc')).valid).toBe(true);
+            await expect(typed.validate(consumer, 7)).rejects.toThrow(/<payload> \[invalid_type]/);
+
+            const oneOf = validatorOf({oneOf: [{type: 'number'}, {type: 'integer'}]});
+            expect((await oneOf.validate(consumer, 1.5)).valid).toBe(true);
+            await expect(oneOf.validate(consumer, 2)).rejects.toThrow('Matches 2 oneOf options, expected exactly one');
+            await expect(oneOf.validate(consumer, 'two')).rejects.toThrow(/<payload> \[invalid_union]/);
+        });
+
+        test('should reject schemas with keywords it cannot validate', async () => {
+            const validator = validatorOf({type: 'array', items: {type: 'string'}, uniqueItems: true});
+
+            await expect(validator.validate(processingLocal.tombstoneSchemaS3Url, ['a', 'a']))
+                .rejects.toThrow('Unsupported JSON Schema keywords: uniqueItems');
+        });
+
+        test('should fail on consumers without an enver_config line', async () => {
+            const validator = new PayloadValidator(processingLocal, {}, offlineSource({}));
+
+            await expect(validator.validate(processingLocal.documentMetadataSchemaS3Url, {}))
+                .rejects.toThrow(`No enver_config line for consumer ${processingLocal.documentMetadataSchemaS3Url.node.id}`);
+        });
+
+        test('should validate against the schema a producer deployed to a local schema store', async () => {
+            const ingestionLocal = ragContracts().ragDocumentIngestionBuild.getEnver('local');
+            const stack = new Stack(ragContracts().node.root as App, 'payload-validator-test', {
+                env: {account: ingestionLocal.targetAWSAccountID, region: ingestionLocal.targetAWSRegion}
+            });
+
+            const store = new LocalDirSchemaStore(tmpDir);
+            const url = await deploySchema(stack, DocumentTombstoneSchema,
+                ingestionLocal.deletionEvents.tombstoneSchemaS3Url, store);
+
+            const validator = new PayloadValidator(processingLocal, {}, new OfflineSchemaTypeSource(
+                [`${processingLocal.tombstoneSchemaS3Url.node.id}:${url}`], store
+            ));
+
+            expect((await validator.validate(processingLocal.tombstoneSchemaS3Url, TOMBSTONE)).schemaUrl).toBe(url);
+            await expect(validator.validate(processingLocal.tombstoneSchemaS3Url, {documentId: 'doc-1'}))
+                .rejects.toThrow(/reason \[invalid_type]/);
+        });
+    });
+});
@@ -0,0 +1,153 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { App } from 'aws-cdk-lib';
+import { RagContracts, localEnverConfig } from '../src';
+import { DocumentStatus } from '../src/schemas/document-status';
+import { overallPipelineState, PipelineStatusSchema } from '../src/schemas/pipeline-status';
+import { PipelineStatusClient, pipelineStatusEndpoints } from '../src/utils/pipeline-status-client';
+import { resetRagContracts } from './setup';
+
+/**
+ * Local HTTP stand-in for the stage status APIs: answers `<prefix>/status/<docId>` from `statuses`,
+ * 404 for unknown documents and 500 for prefixes in `failing`
+ */
+function statusStandIn(statuses: Record<string, DocumentStatus>, failing: string[] = []) {
+    const requests: http.IncomingMessage[] = [];
+    const server = http.createServer((req, res) => {
+        requests.push(req);
+        const url = req.url ?? '';
+        if (failing.some(prefix => url.startsWith(prefix))) {
+            res.writeHead(500).end();
+            return;
+        }
+        const status = statuses[url];
+        if (!status) {
+            res.writeHead(404).end();
+            return;
+        }
+        res.writeHead(200, {'content-type': 'application/json'}).end(JSON.stringify(status));
+    });
+    return {server, requests};
+}
+
+function listen(server: http.Server): Promise<string> {
+    return new Promise(resolve => server.listen(0, '127.0.0.1',
+        () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`)));
+}
+
+describe('Pipeline Status', () => {
+    test('should derive one overall state from the stage states', () => {
+        expect(overallPipelineState([])).toBe('unknown');
+        expect(overallPipelineState([{state: 'unknown'}, {state: 'unknown'}])).toBe('unknown');
+        expect(overallPipelineState([{state: 'completed'}, {state: 'failed'}, {state: 'pending'}])).toBe('failed');
+        expect(overallPipelineState([{state: 'completed'}, {state: 'completed'}])).toBe('completed');
+        expect(overallPipelineState([{state: 'completed'}, {state: 'processing'}, {state: 'pending'}])).toBe('processing');
+        expect(overallPipelineState([{state: 'completed'}, {state: 'unknown'}])).toBe('unknown');
+        expect(overallPipelineState([{state: 'completed'}, {state: 'unknown'}, {state: 'pending'}])).toBe('unknown');
+        expect(overallPipelineState([{state: 'pending'}, {state: 'unknown'}])).toBe('unknown');
+        expect(overallPipelineState([{state: 'failed'}, {state: 'unknown'}])).toBe('failed');
+        expect(overallPipelineState([{state: 'deleted'}, {state: 'unknown'}])).toBe('deleted');
+        expect(overallPipelineState([{state: 'pending'}, {state: 'pending'}])).toBe('pending');
+        expect(overallPipelineState([{state: 'purged'}, {state: 'deleted'}])).toBe('deleted');
+        expect(overallPipelineState([{state: 'purged'}, {state: 'purged'}])).toBe('purged');
+    });
+
+    describe('client', () => {
+        const statuses: Record<string, DocumentStatus> = {
+            '/proc/status/doc-1': {
+                documentId: 'doc-1', stage: 'processing', status: 'completed',
+                startedAt: '2026-01-01T00:00:00Z', timestamp: '2026-01-01T00:00:05Z',
+                metadata: {chunkCount: 12}
+            },
+            '/embed/status/doc-1': {
+                documentId: 'doc-1', stage: 'embedding', status: 'processing',
+                timestamp: '2026-01-01T00:00:09Z', metadata: {embeddingCount: 4}
+            }
+        };
+        const {server, requests} = statusStandIn(statuses, ['/failing']);
+        let base: string;
+
+        beforeAll(async () => {
+            base = await listen(server);
+        });
+
+        afterAll(done => {
+            server.close(done);
+        });
+
+        test('should merge the stage statuses into one timeline', async () => {
+            const client = new PipelineStatusClient(
+                {processing: `${base}/proc`, embedding: `${base}/embed`, vectorStorage: `${base}/vec/`},
+                {authToken: () => 'token-1'}
+            );
+
+            const status = await client.getStatus('doc-1');
+
+            expect(PipelineStatusSchema.parse(status)).toEqual(status);
+            expect(status.state).toBe('processing');
+            expect(status.updatedAt).toBe('2026-01-01T00:00:09Z');
+            expect(status.stages).toEqual([
+                {
+                    stage: 'processing', state: 'completed',
+                    startedAt: '2026-01-01T00:00:00Z', updatedAt: '2026-01-01T00:00:05Z', chunkCount: 12
+                },
+                {stage: 'embedding', state: 'processing', updatedAt: '2026-01-01T00:00:09Z', embeddingCount: 4},
+                {stage: 'vector-storage', state: 'pending'}
+            ]);
+            expect(requests[requests.length - 1].headers.authorization).toBe('Bearer token-1');
+        });
+
+        test('should report unreachable stages as unknown', async () => {
+            const client = new PipelineStatusClient(
+                {processing: `${base}/proc`, embedding: `${base}/failing`, vectorStorage: 'http://127.0.0.1:1'}
+            );
+
+            const status = await client.getStatus('doc-1');
+
+            expect(status.stages.map(s => s.state)).toEqual(['completed', 'unknown', 'unknown']);
+            expect(status.stages[1].error).toContain('500');
+            expect(status.stages[2].error).toBeDefined();
+            expect(status.state).toBe('unknown');
+        });
+    });
+
+    describe('contracts', () => {
+        let ragContracts: RagContracts;
+        const statuses: Record<string, DocumentStatus> = {};
+        const {server} = statusStandIn(statuses);
+        let base: string;
+
+        beforeAll(async () => {
+            base = await listen(server);
+            resetRagContracts();
+            ragContracts = new RagContracts(new App(), {local: {bucketDir: '/tmp/rag-local', httpEndpoint: base}});
+        });
+
+        afterAll(done => {
+            resetRagContracts();
+            server.close(done);
+        });
+
+        test('should query the local stand-ins named in the ingestion enver_config', async () => {
+            const ingestion = ragContracts.ragDocumentIngestionBuild.getEnver('local');
+            const endpoints = pipelineStatusEndpoints(ingestion, localEnverConfig(ragContracts, ingestion).split('\n'));
+
+            expect(endpoints.processing.startsWith(`${base}/ragProc/`)).toBe(true);
+            expect(endpoints.embedding.startsWith(`${base}/ragEmbed/`)).toBe(true);
+            expect(endpoints.vectorStorage.startsWith(`${base}/ragStore/`)).toBe(true);
+
+            ([['processing', 'processing'], ['embedding', 'embedding'], ['vectorStorage', 'vector-storage']] as const)
+                .forEach(([endpoint, stage], i) => {
+                    statuses[new URL(endpoints[endpoint]).pathname + '/status/doc-1'] = {
+                        documentId: 'doc-1', stage, status: 'completed', timestamp: `2026-01-01T00:00:0${i}Z`
+                    };
+                });
+
+            const status = await new PipelineStatusClient(endpoints).getStatus('doc-1');
+            expect(status.state).toBe('completed');
+            expect(status.updatedAt).toBe('2026-01-01T00:00:02Z');
+
+            expect(() => pipelineStatusEndpoints(ingestion, [])).toThrow('No enver_config line for consumer');
+        });
+    });
+});
@@ -0,0 +1,109 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    ProducerChildName,
+    ProducerChildrenSnapshot,
+    ProducerChildSpecs,
+    compareProducerChildrenSnapshots,
+    producerChildrenLayout,
+    producerChildrenProps,
+    producerChildrenSnapshot
+} from '../src/utils/producer-children';
+import { withRagContracts } from './setup';
+
+const SNAPSHOT_FILE = path.join(__dirname, 'producer-children.snapshot.json');
+
+const API_CHILDREN = {
+    api: {
+        pathPart: 'api',
+        children: {
+            requestSchema: {pathPart: 'request-schema', s3artifact: true},
+            responseSchema: {pathPart: 'response-schema', s3artifact: true}
+        }
+    },
+    bucket: {pathPart: 'bucket'}
+} satisfies ProducerChildSpecs;
+
+describe('Producer Children', () => {
+    test('should declare children in key order', () => {
+        expect(producerChildrenProps(API_CHILDREN)).toEqual([
+            {
+                pathPart: 'api',
+                children: [
+                    {pathPart: 'request-schema', s3artifact: true},
+                    {pathPart: 'response-schema', s3artifact: true}
+                ]
+            },
+            {pathPart: 'bucket'}
+        ]);
+    });
+
+    test('should name nested children', () => {
+        const names: ProducerChildName<typeof API_CHILDREN>[] = ['api', 'requestSchema', 'responseSchema', 'bucket'];
+        // @ts-expect-error not a declared child
+        const unknown: ProducerChildName<typeof API_CHILDREN> = 'statusSchema';
+
+        expect(Object.keys(producerChildrenLayout(API_CHILDREN))).toEqual(names);
+        expect(unknown).toBe('statusSchema');
+        expect(producerChildrenLayout(API_CHILDREN).responseSchema).toEqual({position: '0/1', pathPart: 'response-schema'});
+    });
+
+    test('should report moved, renamed pathPart and removed children', () => {
+        const locked: ProducerChildrenSnapshot = {'build/api': producerChildrenLayout(API_CHILDREN)};
+        const current: ProducerChildrenSnapshot = {
+            'build/api': producerChildrenLayout({
+                bucket: {pathPart: 'bucket'},
+                api: {pathPart: 'api-v2', children: {requestSchema: {pathPart: 'request-schema'}}},
+                auditBucket: {pathPart: 'audit-bucket'}
+            })
+        };
+
+        expect(compareProducerChildrenSnapshots(locked, current)).toEqual([
+            {producer: 'build/api', child: 'api', message: 'pathPart changed from api to api-v2'},
+            {producer: 'build/api', child: 'api', message: 'moved from 0 to 1'},
+            {producer: 'build/api', child: 'requestSchema', message: 'moved from 0/0 to 1/0'},
+            {producer: 'build/api', child: 'responseSchema', message: 'removed (was response-schema at 0/1)'},
+            {producer: 'build/api', child: 'bucket', message: 'moved from 1 to 0'},
+        ]);
+    });
+
+    test('should allow appended children and renamed accessors', () => {
+        const locked: ProducerChildrenSnapshot = {'build/api': producerChildrenLayout(API_CHILDREN)};
+        const current: ProducerChildrenSnapshot = {
+            'build/api': producerChildrenLayout({
+                api: API_CHILDREN.api,
+                artifactBucket: API_CHILDREN.bucket,
+                auditBucket: {pathPart: 'audit-bucket'}
+            }),
+            'build/other': producerChildrenLayout({schema: {pathPart: 'schema'}})
+        };
+
+        expect(compareProducerChildrenSnapshots(locked, current)).toEqual([]);
+    });
+
+    describe('contracts', () => {
+        const ragContracts = withRagContracts({reranking: true, workQueues: true});
+
+        test('should resolve named children to the declared positions', () => {
+            const generationApi = ragContracts().ragGenerationBuild.dev.generationApi;
+            expect(generationApi.generationApi).toBe(generationApi.children![0]);
+            expect(generationApi.feedbackSchema).toBe(generationApi.children![0].children![3]);
+            expect(generationApi.webUiS3Bucket).toBe(generationApi.children![2]);
+
+            const proxy = ragContracts().ragKnowledgeRetrievalBuild.dev.vectorSearchProxyApi;
+            expect(proxy.homeServerConfig).toBe(proxy.named.proxyApi.children![4]);
+        });
+
+        // child position and pathPart key stored SSM values, set UPDATE_PRODUCER_CHILDREN_SNAPSHOT=1 to record new children
+        test('should keep the pathPart and position of existing children', () => {
+            const current = producerChildrenSnapshot(ragContracts());
+            if (process.env.UPDATE_PRODUCER_CHILDREN_SNAPSHOT) {
+                fs.writeFileSync(SNAPSHOT_FILE, JSON.stringify(current, null, 2) + '\n');
+            }
+            const locked: ProducerChildrenSnapshot = JSON.parse(fs.readFileSync(SNAPSHOT_FILE, 'utf8'));
+
+            const changes = compareProducerChildrenSnapshots(locked, current);
+            expect(changes.map(c => `${c.producer} ${c.child}: ${c.message}`)).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,63 @@
+import { RagRerankingBuild } from '../src';
+import { withRagContracts } from './setup';
+
+describe('RagContracts Reranking', () => {
+    describe('disabled', () => {
+        const ragContracts = withRagContracts();
+
+        test('should leave reranking out unless enabled', () => {
+            expect(ragContracts().ragRerankingBuild).toBeUndefined();
+            expect(ragContracts().githubRepos.ragReranking.name).toBe('rag-reranking-service');
+
+            const generationDev = ragContracts().ragGenerationBuild.dev;
+            expect(generationDev.rerankSubscription).toBeUndefined();
+            expect(generationDev.vectorSearchProxySubscription!.producer.owner).toBe(ragContracts().ragKnowledgeRetrievalBuild.dev);
+        });
+    });
+
+    describe('enabled', () => {
+        const ragContracts = withRagContracts({reranking: true});
+
+        test('should create one reranking enver per lane', () => {
+            const build = ragContracts().ragRerankingBuild!;
+            expect(build).toBeInstanceOf(RagRerankingBuild);
+            expect(build.buildId).toBe('ragRerank');
+            expect(build.envers).toHaveLength(Object.keys(ragContracts().enverTopology).length);
+            expect(ragContracts().odmdBuilds).toContain(build);
+        });
+
+        test('should sit between retrieval and generation in every lane', () => {
+            const lanes = ragContracts().laneResolver;
+
+            Object.keys(ragContracts().enverTopology).forEach(laneName => {
+                const retrieval = ragContracts().ragKnowledgeRetrievalBuild.getEnver(laneName);
+                const reranking = ragContracts().ragRerankingBuild!.getEnver(laneName);
+                const generation = ragContracts().ragGenerationBuild.getEnver(laneName);
+
+                expect(lanes.downstream(retrieval)).toBe(reranking);
+                expect(lanes.downstream(reranking)).toBe(generation);
+
+                expect(reranking.vectorSearchSubscription.producer).toBe(retrieval.vectorSearchProxyApi.vectorSearchEndpoint);
+                expect(reranking.searchRequestSchemaSubscription.producer).toBe(retrieval.vectorSearchProxyApi.searchRequestSchema);
+                expect(reranking.searchResponseSchemaSubscription.producer).toBe(retrieval.vectorSearchProxyApi.searchResponseSchema);
+            });
+        });
+
+        test('should make generation consume the rerank endpoint', () => {
+            const reranking = ragContracts().ragRerankingBuild!.dev;
+            const generation = ragContracts().ragGenerationBuild.dev;
+
+            expect(generation.rerankSubscription!.producer).toBe(reranking.rerankApi.rerankEndpoint);
+            expect(generation.rerankSchemaSubscription!.producer).toBe(reranking.rerankApi.rerankRequestSchema);
+            [generation.rerankSubscription!, generation.rerankSchemaSubscription!].forEach(c => {
+                expect(c.options?.trigger).toBe('no');
+                expect(c.options?.defaultIfAbsent).toBeDefined();
+            });
+            expect(generation.vectorSearchProxySubscription).toBeUndefined();
+            expect(generation.searchSchemaSubscription).toBeUndefined();
+            expect(generation.healthCheckSubscription.producer.owner).toBe(ragContracts().ragKnowledgeRetrievalBuild.dev);
+
+            expect(() => ragContracts().laneResolver.validateLanes()).not.toThrow();
+        });
+    });
+});
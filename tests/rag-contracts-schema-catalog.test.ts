@@ -0,0 +1,77 @@
+import { App, Stack } from 'aws-cdk-lib';
+import { AnyOdmdEnVer, OdmdCrossRefProducer, OdmdEnverCdk } from '@ondemandenv/contracts-lib-base';
+import { RagServiceBuild, InMemorySchemaStore, deployCatalogSchemas, parseSchemaUrl } from '../src';
+import { catalogSchemaOf, schemaCatalog, schemaCatalogEntries } from '../src/schemas';
+import { ConversationSchema } from '../src/schemas/conversation';
+import { GenerationRequest, GenerationRequestSchema } from '../src/schemas/generation';
+import { RerankRequestSchema } from '../src/schemas/rerank';
+import { TenantSchema } from '../src/schemas/tenant';
+import { withRagContracts } from './setup';
+
+describe('Schema Catalog', () => {
+    test('should give reference types before any producer deployed', () => {
+        const request: GenerationRequest = {tenantId: 'acme', query: 'what changed in v2?', hybrid: {mode: 'hybrid', fusion: 'rrf'}};
+        expect(GenerationRequestSchema.parse(request)).toEqual(request);
+
+        expect(ConversationSchema.safeParse({
+            tenantId: 'acme', userId: 'user-1', conversationId: 'conv-1', messages: [],
+            createdAt: '2026-01-01T00:00:00Z', updatedAt: '2026-01-01T00:00:00Z'
+        }).success).toBe(true);
+        expect(RerankRequestSchema.safeParse({tenantId: 'acme', query: 'q', candidates: [], topN: 0}).success).toBe(false);
+    });
+
+    describe('contracts', () => {
+        const ragContracts = withRagContracts({local: true, reranking: true});
+
+        test('should have a catalog schema for every schema slot of the contracts', () => {
+            const builds: RagServiceBuild<OdmdEnverCdk>[] = [...ragContracts().laneResolver.pipeline, ragContracts().ragEvaluationBuild];
+            const slots = builds
+                .flatMap(build => build.envers as AnyOdmdEnVer[])
+                .flatMap(enver => enver.node.findAll())
+                .filter(c => c instanceof OdmdCrossRefProducer && /schema/.test(c.node.id))
+                .map(c => c as OdmdCrossRefProducer<AnyOdmdEnVer>);
+
+            expect(slots.length).toBeGreaterThan(0);
+            expect(slots.filter(p => catalogSchemaOf(p) === undefined).map(p => p.node.path)).toEqual([]);
+        });
+
+        test('should bind each producer child at most once', () => {
+            const keys = schemaCatalog(ragContracts()).map(e => `${e.buildId}/${e.child}`);
+            expect(new Set(keys).size).toBe(keys.length);
+            expect(schemaCatalogEntries(ragContracts().ragGenerationBuild.getEnver('local')).map(e => e.child)).toEqual([
+                'generationRequestSchema', 'generationResponseSchema', 'conversationSchema', 'feedbackSchema',
+                'conversationMessageSchemaS3Url'
+            ]);
+        });
+
+        test('should resolve entries to the producer child on every enver of the build', () => {
+            schemaCatalog(ragContracts()).forEach(entry => {
+                const build = ragContracts().odmdBuilds.find(b => b.buildId == entry.buildId)!;
+                (build.envers as AnyOdmdEnVer[]).forEach(enver => {
+                    const producer = entry.producer(enver);
+                    expect(producer.owner).toBe(enver);
+                    expect(catalogSchemaOf(producer)).toBe(entry.schema);
+                });
+            });
+        });
+
+        test('should bind the tenant registry slot to one registry item', () => {
+            const tenantRegistry = ragContracts().ragDocumentIngestionBuild.dev.tenantRegistry;
+            expect(catalogSchemaOf(tenantRegistry.tenantRegistrySchemaS3Url)).toBe(TenantSchema);
+        });
+
+        test('should deploy the catalog schemas of an enver', async () => {
+            const retrievalLocal = ragContracts().ragKnowledgeRetrievalBuild.getEnver('local');
+            const stack = new Stack(ragContracts().node.root as App, 'catalog-schema-test', {
+                env: {account: retrievalLocal.targetAWSAccountID, region: retrievalLocal.targetAWSRegion}
+            });
+
+            const store = new InMemorySchemaStore();
+            const urls = await deployCatalogSchemas(stack, retrievalLocal, store);
+
+            expect(Object.keys(urls)).toEqual(['searchRequestSchema', 'searchResponseSchema']);
+            expect(parseSchemaUrl(urls.searchRequestSchema).key.endsWith('/search-request-schema.json')).toBe(true);
+            expect(JSON.parse(await store.resolve(urls.searchRequestSchema)).required).toContain('tenantId');
+        });
+    });
+});
@@ -0,0 +1,81 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { App, Stack } from 'aws-cdk-lib';
+import { RagEmbeddingEnver } from '../src';
+import { OfflineSchemaTypeSource, SchemaTypeGenerator } from '../src/utils/schema-type-generator';
+import { LocalDirSchemaStore } from '../src/utils/schema-store';
+import { withRagContracts } from './setup';
+
+const schemaJson = JSON.stringify({
+    type: 'object',
+    properties: {docId: {type: 'string'}, chunkCount: {type: 'integer'}},
+    required: ['docId']
+}, null, 2);
+
+function generatedFiles(dir: string): Record<string, string> {
+    return Object.fromEntries(fs.readdirSync(dir).sort().map(f => [f, fs.readFileSync(path.join(dir, f), 'utf8')]));
+}
+
+describe('Offline Schema Type Generation', () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rag-schema-codegen-'));
+    const outDir = (name: string) => path.relative(process.cwd(), path.join(tmpDir, name));
+    const ragContracts = withRagContracts({local: true});
+    let embeddingLocal: RagEmbeddingEnver;
+    let generator: (outputRelativePath: string, source: OfflineSchemaTypeSource) => SchemaTypeGenerator<RagEmbeddingEnver>;
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        embeddingLocal = ragContracts().ragEmbeddingBuild.getEnver('local');
+        generator = (outputRelativePath, source) =>
+            new SchemaTypeGenerator(embeddingLocal, [embeddingLocal.processedContentSchemaS3Url], outputRelativePath, source);
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+        fs.rmSync(tmpDir, {recursive: true, force: true});
+    });
+
+    test('should generate zod types from an enver_config and a schema map', async () => {
+        const url = 's3://art-bucket/123/b..dev/docMetadataSchemaS3Url.json@v1';
+        const source = new OfflineSchemaTypeSource(
+            [`processedContentSchemaS3Url:${url}`, 'other:value'],
+            {[url]: schemaJson}
+        );
+
+        await generator(outDir('map'), source).run();
+
+        const files = generatedFiles(path.join(tmpDir, 'map'));
+        expect(Object.keys(files)).toEqual(['processedContentSchemaS3Url-v1.schema.json', 'processedContentSchemaS3Url-v1.zod.ts']);
+        expect(files['processedContentSchemaS3Url-v1.schema.json']).toBe(schemaJson);
+
+        const zodTs = files['processedContentSchemaS3Url-v1.zod.ts'];
+        expect(zodTs.startsWith(`/* AUTO-GENERATED ⏤ schema-sha:v1 source:${url} consumer:processedContentSchemaS3Url */`)).toBe(true);
+        expect(zodTs).toContain(`import { z } from 'zod';`);
+        expect(zodTs).toContain('export const processedContentSchemaS3UrlSchema = z.object(');
+        expect(zodTs).toContain('export type processedContentSchemaS3UrlSchema = z.infer<typeof processedContentSchemaS3UrlSchema>;');
+    });
+
+    test('should generate byte-identical files from a local directory', async () => {
+        const store = new LocalDirSchemaStore(path.join(tmpDir, 'artifacts'));
+        const producer = embeddingLocal.processedContentSchemaS3Url.producer;
+        const scope = new Stack(ragContracts().node.root as App, 'codegen-test', {
+            env: {account: producer.owner.targetAWSAccountID, region: producer.owner.targetAWSRegion}
+        });
+        const url = await store.publish({scope, producer, key: '123/b..dev/schema.json', schemaJson, gitSha: 'abc123'});
+        fs.writeFileSync(path.join(tmpDir, 'artifacts', 'enver_config'), `processedContentSchemaS3Url:${url}\n`);
+
+        const source = () => OfflineSchemaTypeSource.fromDirectory(path.join(tmpDir, 'artifacts'));
+        await generator(outDir('dir-1'), source()).run();
+        await generator(outDir('dir-2'), source()).run();
+
+        expect(generatedFiles(path.join(tmpDir, 'dir-1'))).toEqual(generatedFiles(path.join(tmpDir, 'dir-2')));
+    });
+
+    test('should fail for a consumer without an enver_config line', async () => {
+        const source = new OfflineSchemaTypeSource('other:value', {});
+
+        await expect(generator(outDir('missing'), source).run())
+            .rejects.toThrow('No enver_config line for consumer processedContentSchemaS3Url');
+    });
+});
@@ -0,0 +1,130 @@
+import { App, Stack } from 'aws-cdk-lib';
+import { AnyOdmdEnVer, OdmdCrossRefProducer } from '@ondemandenv/contracts-lib-base';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import {
+    checkSchemaCompatibility,
+    formatSchemaCompatibilityReport,
+    incompatibleChanges
+} from '../src/utils/schema-compatibility';
+import { InMemorySchemaStore } from '../src/utils/schema-store';
+import { deploySchema } from '../src';
+import { withRagContracts } from './setup';
+
+const processedContent = z.object({
+    docId: z.string(),
+    chunkCount: z.number().int(),
+    language: z.enum(['en', 'de']),
+    tags: z.array(z.string()).optional()
+});
+
+function check(candidate: z.ZodObject<any>) {
+    return checkSchemaCompatibility(zodToJsonSchema(processedContent), zodToJsonSchema(candidate));
+}
+
+describe('Schema Compatibility', () => {
+    test('should report an unchanged schema as identical', () => {
+        expect(check(processedContent)).toEqual({compatibility: 'identical', changes: []});
+    });
+
+    test('should report a required field added as not backward compatible', () => {
+        const report = check(processedContent.extend({title: z.string()}));
+
+        expect(report.compatibility).toBe('breaking');
+        expect(report.changes).toEqual([expect.objectContaining({
+            path: '$.title', kind: 'field-added', backward: false, forward: false
+        })]);
+        expect(incompatibleChanges(report, 'backward').map(c => c.path)).toEqual(['$.title']);
+    });
+
+    test('should report an optional field added as backward compatible', () => {
+        const report = check(processedContent.extend({title: z.string().optional()}));
+
+        expect(report.compatibility).toBe('backward');
+        expect(report.changes[0].reason).toContain('previous schema rejects unknown properties');
+        expect(incompatibleChanges(report, 'backward')).toEqual([]);
+        expect(incompatibleChanges(report, 'full').map(c => c.path)).toEqual(['$.title']);
+    });
+
+    test('should report a removed enum value as forward compatible', () => {
+        const report = check(processedContent.extend({language: z.enum(['en'])}));
+
+        expect(report.compatibility).toBe('forward');
+        expect(report.changes).toEqual([expect.objectContaining({
+            path: '$.language', kind: 'enum-changed', backward: false, forward: true
+        })]);
+    });
+
+    test('should report per-field reasons for nested and widened changes', () => {
+        const report = check(processedContent.extend({
+            chunkCount: z.number(),
+            tags: z.array(z.number()).optional()
+        }));
+
+        expect(report.changes.map(c => [c.path, c.kind, c.backward, c.forward])).toEqual([
+            ['$.chunkCount', 'type-changed', true, false],
+            ['$.tags[]', 'type-changed', false, false],
+        ]);
+        expect(report.compatibility).toBe('breaking');
+        expect(formatSchemaCompatibilityReport(report)).toContain('$.tags[] [type-changed] backward:no forward:no - type string -> number');
+    });
+
+    test('should report required to optional and removed fields', () => {
+        const report = check(z.object({
+            docId: z.string().optional(),
+            chunkCount: z.number().int(),
+            language: z.enum(['en', 'de'])
+        }));
+
+        expect(report.changes.map(c => [c.path, c.kind])).toEqual([
+            ['$.docId', 'field-now-optional'],
+            ['$.tags', 'field-removed'],
+        ]);
+    });
+
+    describe('deploySchema gate', () => {
+        const ragContracts = withRagContracts({local: true});
+        let stackCount = 0;
+        let stack: Stack;
+
+        beforeEach(() => {
+            const processingLocal = ragContracts().ragDocumentProcessingBuild.getEnver('local');
+            stack = new Stack(ragContracts().node.root as App, `schema-compat-test-${++stackCount}`, {
+                env: {account: processingLocal.targetAWSAccountID, region: processingLocal.targetAWSRegion}
+            });
+        });
+
+        // declared schema slots only take their own schema, this one takes any candidate
+        let producer: OdmdCrossRefProducer<AnyOdmdEnVer>;
+
+        beforeAll(() => {
+            producer = new OdmdCrossRefProducer(ragContracts().ragDocumentProcessingBuild.getEnver('local'), 'compat-test-schema');
+        });
+
+        test('should fail synth on a breaking change when configured', async () => {
+            const store = new InMemorySchemaStore();
+            await deploySchema(stack, processedContent, producer, store, {failOnBreaking: true});
+
+            await expect(deploySchema(stack, processedContent.extend({title: z.string()}), producer, store, {failOnBreaking: true}))
+                .rejects.toThrow(/not backward compatible[\s\S]*\$\.title \[field-added\]/);
+        });
+
+        test('should publish a breaking change with an explicit override', async () => {
+            const store = new InMemorySchemaStore();
+            const first = await deploySchema(stack, processedContent, producer, store, {failOnBreaking: true});
+            const second = await deploySchema(stack, processedContent.extend({title: z.string()}), producer, store,
+                {failOnBreaking: true, allowBreaking: true});
+
+            expect(second).not.toBe(first);
+            expect(stack.node.metadata.some(m => m.type == 'aws:cdk:warning' && String(m.data).includes('$.title'))).toBe(true);
+        });
+
+        test('should publish compatible changes', async () => {
+            const store = new InMemorySchemaStore();
+            await deploySchema(stack, processedContent, producer, store, {failOnBreaking: true});
+
+            await expect(deploySchema(stack, processedContent.extend({title: z.string().optional()}), producer, store,
+                {failOnBreaking: true})).resolves.toMatch(/^s3:\/\//);
+        });
+    });
+});
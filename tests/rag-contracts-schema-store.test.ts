@@ -0,0 +1,88 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { App, Stack } from 'aws-cdk-lib';
+import { RagDocumentIngestionEnver, deploySchema } from '../src';
+import {
+    InMemorySchemaStore,
+    LocalDirSchemaStore,
+    SchemaPublishRequest,
+    SchemaStore,
+    formatSchemaUrl,
+    parseSchemaUrl
+} from '../src/utils/schema-store';
+import { DocumentMetadataSchema } from '../src/schemas/document-metadata';
+import { withRagContracts } from './setup';
+
+describe('Schema Stores', () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rag-schema-store-'));
+    const ragContracts = withRagContracts({local: true});
+    let ingestionLocal: RagDocumentIngestionEnver;
+    let stack: Stack;
+
+    beforeAll(() => {
+        ingestionLocal = ragContracts().ragDocumentIngestionBuild.getEnver('local');
+        stack = new Stack(ragContracts().node.root as App, 'schema-test', {
+            env: {account: ingestionLocal.targetAWSAccountID, region: ingestionLocal.targetAWSRegion}
+        });
+    });
+
+    function publishRequest(key: string, schemaJson: string): SchemaPublishRequest {
+        return {
+            scope: stack,
+            producer: ingestionLocal.documentStorageResources.docMetadataSchemaS3Url,
+            key, schemaJson, gitSha: 'abc123'
+        };
+    }
+
+    afterAll(() => {
+        fs.rmSync(tmpDir, {recursive: true, force: true});
+    });
+
+    test('should format and parse schema urls', () => {
+        const url = {bucket: 'art-bucket', key: '123/b..dev/schema.json', version: 'v1'};
+        expect(formatSchemaUrl(url)).toBe('s3://art-bucket/123/b..dev/schema.json@v1');
+        expect(parseSchemaUrl(formatSchemaUrl(url))).toEqual(url);
+        expect(() => parseSchemaUrl('https://example.com/schema.json')).toThrow('Not a schema url');
+    });
+
+    const stores: [string, () => SchemaStore][] = [
+        ['in-memory', () => new InMemorySchemaStore()],
+        ['local directory', () => new LocalDirSchemaStore(tmpDir)],
+    ];
+
+    test.each(stores)('%s store should publish and resolve with the s3 url contract', async (_name, createStore) => {
+        const store = createStore();
+        expect(await store.latest(publishRequest('123/b..dev/store-schema.json', ''))).toBeUndefined();
+
+        const v1 = JSON.stringify({type: 'object', properties: {docId: {type: 'string'}}});
+        const v2 = JSON.stringify({type: 'object', properties: {docId: {type: 'string'}, title: {type: 'string'}}});
+
+        const url1 = await store.publish(publishRequest('123/b..dev/store-schema.json', v1));
+        const url2 = await store.publish(publishRequest('123/b..dev/store-schema.json', v2));
+
+        expect(parseSchemaUrl(url1).key).toBe('123/b..dev/store-schema.json');
+        expect(url1).not.toBe(url2);
+        expect(await store.resolve(url1)).toBe(v1);
+        expect(await store.resolve(url2)).toBe(v2);
+        expect(await store.latest(publishRequest('123/b..dev/store-schema.json', ''))).toBe(v2);
+        expect(await store.publish(publishRequest('123/b..dev/store-schema.json', v1))).toBe(url1);
+
+        await expect(store.resolve(formatSchemaUrl({...parseSchemaUrl(url1), version: 'missing'}))).rejects.toThrow('Schema not found');
+    });
+
+    test('local directory store should survive a new instance', async () => {
+        const url = await new LocalDirSchemaStore(tmpDir).publish(publishRequest('k/schema.json', '{}'));
+        expect(await new LocalDirSchemaStore(tmpDir).resolve(url)).toBe('{}');
+    });
+
+    test('should deploy a producer schema offline', async () => {
+        const store = new InMemorySchemaStore();
+        const url = await deploySchema(stack, DocumentMetadataSchema,
+            ingestionLocal.documentStorageResources.docMetadataSchemaS3Url, store);
+
+        const {key} = parseSchemaUrl(url);
+        expect(key.startsWith(ingestionLocal.targetAWSAccountID + '/')).toBe(true);
+        expect(JSON.parse(await store.resolve(url)).properties.documentId.type).toBe('string');
+    });
+});
@@ -0,0 +1,76 @@
+import { App, Stack } from 'aws-cdk-lib';
+import { AnyOdmdEnVer } from '@ondemandenv/contracts-lib-base';
+import { z } from 'zod';
+import {
+    InMemorySchemaStore,
+    SchemaPayload,
+    SchemaProducer,
+    deploySchema,
+    producerSchema
+} from '../src';
+import { schemaCatalog } from '../src/schemas';
+import { DocumentMetadataSchema } from '../src/schemas/document-metadata';
+import { ProcessedContent, ProcessedContentSchema } from '../src/schemas/processed-content';
+import { RerankRequestSchema } from '../src/schemas/rerank';
+import { withRagContracts } from './setup';
+
+const PROCESSED: ProcessedContent = {
+    documentId: 'doc-1',
+    tenantId: 'acme',
+    sourceS3Key: 'acme/doc-1.pdf',
+    contentType: 'application/pdf',
+    chunks: [{chunkId: 'doc-1#0', index: 0, content: 'hello'}],
+    processedAt: '2026-01-01T00:00:00Z'
+};
+
+describe('Schema-typed Producers', () => {
+    test('should type payloads from the producer schema', () => {
+        const payload: SchemaPayload<SchemaProducer<AnyOdmdEnVer, typeof ProcessedContentSchema>> = PROCESSED;
+        expect(ProcessedContentSchema.parse(payload)).toEqual(PROCESSED);
+    });
+
+    describe('contracts', () => {
+        const ragContracts = withRagContracts({local: true, reranking: true});
+
+        test('should declare every catalog schema on its producer child', () => {
+            schemaCatalog(ragContracts()).forEach(entry => {
+                const build = ragContracts().odmdBuilds.find(b => b.buildId == entry.buildId)!;
+                (build.envers as AnyOdmdEnVer[]).forEach(enver => {
+                    expect(producerSchema(entry.producer(enver))).toBe(entry.schema);
+                });
+            });
+            const ingestion = ragContracts().ragDocumentIngestionBuild.getEnver('local');
+            expect(producerSchema(ingestion.documentStorageResources.docMetadataSchemaS3Url)).toBe(DocumentMetadataSchema);
+            expect(producerSchema(ragContracts().ragDocumentIngestionBuild.getEnver('local').documentStorageResources.quarantineBucket))
+                .toBeUndefined();
+        });
+
+        test('should give consumers the schema of the producer they subscribe to', () => {
+            const embedding = ragContracts().ragEmbeddingBuild.getEnver('local');
+            expect(embedding.processedContentSchemaS3Url.schema).toBe(ProcessedContentSchema);
+
+            const processed: ProcessedContent = embedding.processedContentSchemaS3Url.parse(PROCESSED);
+            expect(processed).toEqual(PROCESSED);
+            expect(() => embedding.processedContentSchemaS3Url.parse({...PROCESSED, chunks: undefined})).toThrow();
+
+            const generation = ragContracts().ragGenerationBuild.getEnver('local');
+            expect(generation.rerankSchemaSubscription!.schema).toBe(RerankRequestSchema);
+        });
+
+        test('should only deploy the schema a producer is declared with', async () => {
+            const ingestionLocal = ragContracts().ragDocumentIngestionBuild.getEnver('local');
+            const stack = new Stack(ragContracts().node.root as App, 'schema-typed-test', {
+                env: {account: ingestionLocal.targetAWSAccountID, region: ingestionLocal.targetAWSRegion}
+            });
+            const producer = ingestionLocal.documentStorageResources.docMetadataSchemaS3Url;
+            const store = new InMemorySchemaStore();
+
+            // @ts-expect-error docMetadataSchemaS3Url is declared with DocumentMetadataSchema
+            const mismatched = () => deploySchema(stack, z.object({docId: z.string()}), producer, store);
+            await expect(mismatched()).rejects.toThrow('declared with another schema');
+
+            const url = await deploySchema(stack, DocumentMetadataSchema, producer, store);
+            expect(JSON.parse(await store.resolve(url)).required).toContain('documentId');
+        });
+    });
+});
@@ -81,4 +81,31 @@ describe('RagContracts Structure', () => {
         expect(ragContracts.userAuth!.envers).toHaveLength(1);
         expect(ragContracts.userAuth!.envers[0].targetRevision.value).toBe('odmd-rag');
     });
-}); 
\ No newline at end of file
+
+    test('should create one enver per topology lane for all services', () => {
+        const lanes = Object.entries(ragContracts.enverTopology);
+        expect(lanes.map(([laneName]) => laneName)).toEqual(['dev', 'prod']);
+
+        [
+            ragContracts.ragDocumentIngestionBuild,
+            ragContracts.ragDocumentProcessingBuild,
+            ragContracts.ragEmbeddingBuild,
+            ragContracts.ragVectorStorageBuild,
+            ragContracts.ragKnowledgeRetrievalBuild,
+            ragContracts.ragGenerationBuild
+        ].forEach(build => {
+            expect(build.envers).toHaveLength(lanes.length);
+            lanes.forEach(([laneName, lane], i) => {
+                const enver = build.getEnver(laneName);
+                expect(build.envers[i]).toBe(enver);
+                expect(enver.targetAWSAccountID).toBe(ragContracts.accounts[lane.account]);
+                expect(enver.targetAWSRegion).toBe(lane.region);
+                expect(enver.targetRevision.value).toBe(lane.revision.value);
+            });
+            expect(() => build.getEnver('no-such-lane')).toThrow();
+        });
+
+        expect(ragContracts.ragEmbeddingBuild.getEnver('prod').processedContentSubscription.producer.owner)
+            .toBe(ragContracts.ragDocumentProcessingBuild.getEnver('prod'));
+    });
+});
@@ -0,0 +1,61 @@
+import { authorizeTenant, defaultTenant, tenantIdsFromClaims, TenantRegistry } from '../src/schemas/tenant';
+import { DocumentMetadataSchema } from '../src/schemas/document-metadata';
+import { VectorUpsertRequestSchema } from '../src/schemas/vector-upsert';
+import { HybridSearchRequestSchema } from '../src/schemas/hybrid-search';
+import { withRagContracts } from './setup';
+
+const registry: TenantRegistry = {
+    tenants: [defaultTenant('team-a'), defaultTenant('team-b')]
+};
+
+describe('Multi-Tenant Contracts', () => {
+    test('should lay out tenants under their own prefix and namespace', () => {
+        expect(defaultTenant('team-a')).toEqual({
+            tenantId: 'team-a',
+            displayName: 'team-a',
+            documentPrefix: 'tenants/team-a/',
+            vectorNamespace: 'team-a'
+        });
+    });
+
+    test('should require a tenant id in doc-metadata, upsert and search payloads', () => {
+        expect(DocumentMetadataSchema.safeParse({
+            documentId: 'doc-1', s3Bucket: 'b', s3Key: 'k', documentType: 'pdf', fileSize: 1,
+            uploadedBy: 'u', uploadedAt: '2026-01-01T00:00:00Z', originalFileName: 'a.pdf'
+        }).success).toBe(false);
+        expect(VectorUpsertRequestSchema.safeParse({documentId: 'doc-1', modelVersion: '1', vectors: []}).success).toBe(false);
+        expect(HybridSearchRequestSchema.safeParse({query: 'q', topK: 5}).success).toBe(false);
+
+        expect(VectorUpsertRequestSchema.safeParse({tenantId: 'team-a', documentId: 'doc-1', modelVersion: '1', vectors: []}).success).toBe(true);
+        expect(HybridSearchRequestSchema.safeParse({tenantId: 'Team A', query: 'q', topK: 5}).success).toBe(false);
+    });
+
+    test('should only authorize tenants granted by the auth claims', () => {
+        expect(tenantIdsFromClaims({'custom:tenant_ids': 'team-a, team-b'}, 'custom:tenant_ids')).toEqual(['team-a', 'team-b']);
+        expect(tenantIdsFromClaims({tenants: ['team-a']}, 'tenants')).toEqual(['team-a']);
+        expect(tenantIdsFromClaims({}, 'tenants')).toEqual([]);
+
+        const claims = {'custom:tenant_ids': 'team-a'};
+        expect(authorizeTenant(registry, claims, 'custom:tenant_ids', 'team-a').vectorNamespace).toBe('team-a');
+        expect(() => authorizeTenant(registry, claims, 'custom:tenant_ids', 'team-b'))
+            .toThrow("Caller is not a member of tenant 'team-b'");
+        expect(() => authorizeTenant(registry, {'custom:tenant_ids': 'team-c'}, 'custom:tenant_ids', 'team-c'))
+            .toThrow("Tenant 'team-c' is not registered");
+    });
+
+    describe('contracts', () => {
+        const ragContracts = withRagContracts();
+
+        test('should share the tenant registry of the lane with vector storage and retrieval', () => {
+            Object.keys(ragContracts().enverTopology).forEach(laneName => {
+                const tenantRegistry = ragContracts().ragDocumentIngestionBuild.getEnver(laneName).tenantRegistry;
+                const vectorStorage = ragContracts().ragVectorStorageBuild.getEnver(laneName);
+                const retrieval = ragContracts().ragKnowledgeRetrievalBuild.getEnver(laneName);
+
+                expect(vectorStorage.tenantRegistryTable.producer).toBe(tenantRegistry.tenantRegistryTable);
+                expect(retrieval.tenantRegistryTable.producer).toBe(tenantRegistry.tenantRegistryTable);
+                expect(retrieval.tenantClaimName.producer).toBe(tenantRegistry.tenantClaimName);
+            });
+        });
+    });
+});
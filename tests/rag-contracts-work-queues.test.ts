@@ -0,0 +1,59 @@
+import { lintContracts } from '../src';
+import { parseRedrivePolicy, RedrivePolicySchema } from '../src/schemas/work-queue';
+import { withRagContracts } from './setup';
+
+describe('Work Queues', () => {
+    test('should accept redrive policies within the SQS limits', () => {
+        const policy = {
+            deadLetterTargetArn: 'arn:aws:sqs:us-east-2:111122223333:rag-embedding-dlq',
+            maxReceiveCount: 3,
+            visibilityTimeoutSeconds: 900,
+            batchSize: 10
+        };
+        expect(parseRedrivePolicy(JSON.stringify(policy))).toEqual(policy);
+
+        expect(RedrivePolicySchema.safeParse({...policy, maxReceiveCount: 0}).success).toBe(false);
+        expect(RedrivePolicySchema.safeParse({...policy, visibilityTimeoutSeconds: 43201}).success).toBe(false);
+        expect(RedrivePolicySchema.safeParse({...policy, deadLetterTargetArn: 'rag-embedding-dlq'}).success).toBe(false);
+        expect(() => parseRedrivePolicy('not json')).toThrow();
+    });
+
+    describe('contracts', () => {
+        const ragContracts = withRagContracts();
+
+        test('should not publish work queues by default', () => {
+            expect(ragContracts().workQueues).toBe(false);
+            expect(ragContracts().ragDocumentIngestionBuild.dev.documentQueue).toBeUndefined();
+            expect(ragContracts().ragDocumentProcessingBuild.dev.processedContentQueue).toBeUndefined();
+            expect(ragContracts().ragEmbeddingBuild.dev.embeddingQueue).toBeUndefined();
+            expect(ragContracts().ragVectorStorageBuild.dev.workQueue).toBeUndefined();
+        });
+    });
+
+    describe('contracts with work queues', () => {
+        const ragContracts = withRagContracts({workQueues: true});
+
+        test('should hand work to the next stage through the same lane\'s queue', () => {
+            Object.keys(ragContracts().enverTopology).forEach(laneName => {
+                const ingestion = ragContracts().ragDocumentIngestionBuild.getEnver(laneName);
+                const processing = ragContracts().ragDocumentProcessingBuild.getEnver(laneName);
+                const embedding = ragContracts().ragEmbeddingBuild.getEnver(laneName);
+                const vectorStorage = ragContracts().ragVectorStorageBuild.getEnver(laneName);
+
+                ([
+                    [ingestion.documentQueue!, processing],
+                    [processing.processedContentQueue!, embedding],
+                    [embedding.embeddingQueue!, vectorStorage],
+                ] as const).forEach(([queue, consumer]) => {
+                    expect(consumer.workQueue!.producer).toBe(queue);
+                    expect(consumer.workQueueArn!.producer).toBe(queue.workQueueArn);
+                    expect(consumer.deadLetterQueueArn!.producer).toBe(queue.deadLetterQueueArn);
+                    expect(consumer.redrivePolicy!.producer).toBe(queue.redrivePolicy);
+                });
+            });
+
+            expect(lintContracts(ragContracts()).findings.filter(f => f.rule == 'unconsumed-producer')
+                .filter(f => /-queue/.test(f.node))).toEqual([]);
+        });
+    });
+});
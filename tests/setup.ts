@@ -1,4 +1,39 @@
 
+import { App } from 'aws-cdk-lib';
+import { RagContracts, RagContractsOptions } from '../src';
+
+/**
+ * Drops the RagContracts singleton so the next test can construct its own
+ */
+export function resetRagContracts(): void {
+    (RagContracts as unknown as { _inst?: RagContracts })._inst = undefined;
+}
+
+/**
+ * RagContracts of the enclosing describe, built in its beforeAll and dropped in its afterAll.
+ * The returned function gives the instance inside hooks and tests.
+ */
+export function withRagContracts(options?: RagContractsOptions): () => RagContracts {
+    let ragContracts: RagContracts | undefined;
+
+    beforeAll(() => {
+        resetRagContracts();
+        ragContracts = new RagContracts(new App(), options);
+    });
+
+    afterAll(() => {
+        resetRagContracts();
+        ragContracts = undefined;
+    });
+
+    return () => {
+        if (!ragContracts) {
+            throw new Error('RagContracts is only built inside the describe of withRagContracts');
+        }
+        return ragContracts;
+    };
+}
+
 beforeAll(() => {
     process.env.CDK_CLI_VERSION = '2.0.0';
     process.env.CDK_DEFAULT_REGION = 'us-east-1';
@@ -10,12 +45,8 @@ afterAll(() => {
     delete process.env.CDK_DEFAULT_REGION;
     delete process.env.CDK_DEFAULT_ACCOUNT;
     
-    try {
-        const { RagContracts } = require('../src');
-        (RagContracts as any)._inst = undefined;
-    } catch (e) {
-    }
-    
+    resetRagContracts();
+
     if (global.gc) {
         global.gc();
     }